@@ -0,0 +1,216 @@
+/** Caching of ABI definitions fetched by an abi provider. */
+
+import {
+    ABI,
+    ABIDef,
+    Blob,
+    Bytes,
+    Checksum256,
+    Checksum256Type,
+    isInstanceOf,
+    Name,
+    Serializer,
+} from '@wharfkit/antelope'
+
+import {AbiHashMismatchError} from './errors'
+import {MemoryCache} from './memory-cache'
+import {AbiProvider} from './signing-request'
+
+/** A cached ABI. */
+export interface AbiCacheEntry {
+    /** The ABI definition, in its JSON representation. */
+    abi: ABI.Def
+    /** Hex encoded sha256 hash of the binary ABI, see `abiHash`. */
+    hash: string
+    /** The binary ABI as hex, only set if the provider returned a binary ABI. */
+    raw?: string
+    /** When the ABI was fetched, in milliseconds since the epoch. */
+    fetched: number
+}
+
+/**
+ * Persistent storage for cached ABIs, e.g. backed by localStorage or a database.
+ * Methods may be synchronous or return promises, errors are treated as cache misses.
+ */
+export interface AbiCacheStore {
+    get(key: string): AbiCacheEntry | undefined | Promise<AbiCacheEntry | undefined>
+    set(key: string, entry: AbiCacheEntry): void | Promise<void>
+    delete(key: string): void | Promise<void>
+}
+
+export interface CachingAbiProviderOptions {
+    /** How long cached ABIs are used before being refetched, in milliseconds. Defaults to 1 hour. */
+    ttl?: number
+    /** Max number of ABIs kept in memory, least recently used are evicted first. Defaults to 100. */
+    maxEntries?: number
+    /** Persistent store consulted when an ABI is not in memory. */
+    store?: AbiCacheStore
+    /** Prefix for store keys, e.g. the chain id when sharing a store between chains. */
+    prefix?: string
+    /** Expected ABI hashes by account name, see `CachingAbiProvider.pin`. */
+    hashes?: Record<string, Checksum256Type>
+    /** Clock used to expire entries, defaults to `Date.now`. */
+    now?: () => number
+}
+
+/**
+ * Return the sha256 hash of a binary ABI.
+ * Binary ABIs, e.g. from chain/get_raw_abi, are hashed as is and match its `abi_hash`.
+ * Other ABIs are hashed after serializing, this only matches the `abi_hash` of the chain if the
+ * ABI was set using the same encoding, e.g. not for ABIs without the trailing 1.1 sections.
+ */
+export function abiHash(abi: ABIDef | Bytes): Checksum256 {
+    if (isInstanceOf(abi, Bytes)) {
+        return Checksum256.hash(abi)
+    }
+    if (isInstanceOf(abi, Blob)) {
+        return Checksum256.hash(Bytes.from(abi.array))
+    }
+    return Checksum256.hash(Serializer.encode({object: ABI.from(abi)}))
+}
+
+/**
+ * AbiProvider decorator that caches ABIs in memory and optionally in a persistent store.
+ * Concurrent requests for the same ABI are deduplicated.
+ *
+ * ```
+ * const abiProvider = new CachingAbiProvider(
+ *     {getAbi: async (account) => (await client.v1.chain.get_abi(account)).abi},
+ *     {ttl: 10 * 60 * 1000, hashes: {'eosio.token': '...'}}
+ * )
+ * ```
+ */
+export class CachingAbiProvider implements AbiProvider {
+    readonly ttl: number
+    readonly maxEntries: number
+    readonly prefix: string
+
+    private provider: AbiProvider
+    private store?: AbiCacheStore
+    private now: () => number
+    private memory: MemoryCache<AbiCacheEntry>
+    private hashes = new Map<string, Checksum256>()
+
+    constructor(provider: AbiProvider, options: CachingAbiProviderOptions = {}) {
+        this.provider = provider
+        this.store = options.store
+        this.ttl = options.ttl !== undefined ? options.ttl : 60 * 60 * 1000
+        this.maxEntries = options.maxEntries !== undefined ? options.maxEntries : 100
+        this.memory = new MemoryCache(this.maxEntries)
+        this.prefix = options.prefix || ''
+        this.now = options.now || Date.now
+        for (const account of Object.keys(options.hashes || {})) {
+            this.pin(account, options.hashes![account])
+        }
+    }
+
+    /**
+     * Pin an account to an ABI hash. Cached ABIs with the pinned hash are used regardless
+     * of age and other ABIs are refetched, if the fetched ABI does not match either
+     * `getAbi` throws an `AbiHashMismatchError`.
+     */
+    pin(account: Name | string, hash: Checksum256Type) {
+        this.hashes.set(String(account), Checksum256.from(hash))
+    }
+
+    /** Remove a pinned ABI hash. */
+    unpin(account: Name | string) {
+        this.hashes.delete(String(account))
+    }
+
+    /** Remove an ABI from memory and the store, or all ABIs held in memory if no account is given. */
+    async invalidate(account?: Name | string) {
+        const accounts = account ? [String(account)] : this.memory.keys()
+        for (const name of accounts) {
+            this.memory.delete(name)
+            if (this.store) {
+                try {
+                    await this.store.delete(this.prefix + name)
+                } catch {
+                    // ignore store errors
+                }
+            }
+        }
+    }
+
+    async getAbi(account: Name): Promise<ABIDef> {
+        const name = String(account)
+        const entry = await this.memory.get(
+            name,
+            (cached) => this.isValid(name, cached),
+            () => this.load(name)
+        )
+        return ABI.from(entry.abi)
+    }
+
+    private async load(name: string): Promise<AbiCacheEntry> {
+        let entry = await this.storeGet(name)
+        // stored entries are not trusted, verify their contents when pinned
+        if (!entry || !this.isValid(name, entry, true)) {
+            entry = await this.fetch(name)
+            await this.storeSet(name, entry)
+        }
+        return entry
+    }
+
+    private async fetch(name: string): Promise<AbiCacheEntry> {
+        const def = await this.provider.getAbi(Name.from(name))
+        const abi = ABI.from(def)
+        const hash = abiHash(def)
+        const expected = this.hashes.get(name)
+        if (expected && !expected.equals(hash)) {
+            throw new AbiHashMismatchError(name, expected, hash)
+        }
+        const entry: AbiCacheEntry = {
+            abi: JSON.parse(JSON.stringify(abi)),
+            hash: hash.hexString,
+            fetched: this.now(),
+        }
+        if (isInstanceOf(def, Blob)) {
+            entry.raw = Bytes.from(def.array).hexString
+        }
+        return entry
+    }
+
+    private isValid(name: string, entry: AbiCacheEntry, verify = false) {
+        const expected = this.hashes.get(name)
+        if (expected) {
+            if (!verify) {
+                return expected.equals(entry.hash)
+            }
+            try {
+                if (entry.raw !== undefined) {
+                    const raw = Bytes.from(entry.raw)
+                    const decoded = Serializer.decode({data: raw, type: ABI})
+                    return expected.equals(abiHash(raw)) && decoded.equals(entry.abi)
+                }
+                return expected.equals(abiHash(entry.abi))
+            } catch {
+                return false
+            }
+        }
+        return this.now() - entry.fetched < this.ttl
+    }
+
+    private async storeGet(name: string) {
+        if (!this.store) {
+            return undefined
+        }
+        try {
+            return await this.store.get(this.prefix + name)
+        } catch {
+            return undefined
+        }
+    }
+
+    private async storeSet(name: string, entry: AbiCacheEntry) {
+        if (!this.store) {
+            return
+        }
+        try {
+            await this.store.set(this.prefix + name, entry)
+        } catch {
+            // ignore store errors, the abi is still cached in memory
+        }
+    }
+}
@@ -14,6 +14,7 @@ import {
 } from '@wharfkit/antelope'
 
 import {ChainIdVariant} from './chain-id'
+import {InvalidArgumentsError} from './errors'
 
 @TypeAlias('account_name')
 export class AccountName extends Name {}
@@ -42,10 +43,91 @@ export class RequestVariantV3 extends Variant {
     value!: Action | Action[] | Transaction | IdentityV3
 }
 
+/** Flag bits defined by the protocol, by name. */
+export const ProtocolRequestFlags: Readonly<Record<string, number>> = {
+    broadcast: 1 << 0,
+    background: 1 << 1,
+    identity_challenge: 1 << 2,
+}
+
+/**
+ * Registry of named request flags, holds the protocol flags and any custom flags registered.
+ * Pass a registry with custom flags to the request options, see `SigningRequestEncodingOptions`.
+ */
+export class RequestFlagRegistry {
+    private flags: Record<string, number> = {...ProtocolRequestFlags}
+
+    /**
+     * Declare a custom flag, registering the same flag again is a no-op.
+     * @param name Name of the flag.
+     * @param bit The bit index of the flag, 0-7.
+     * @returns The flag value.
+     */
+    register(name: string, bit: number): number {
+        if (!Number.isInteger(bit) || bit < 0 || bit > 7) {
+            throw new RangeError('Invalid request flag bit')
+        }
+        const flag = 1 << bit
+        for (const key of Object.keys(this.flags)) {
+            const existing = this.flags[key]
+            if ((key === name && existing !== flag) || (key !== name && existing === flag)) {
+                throw new InvalidArgumentsError(`Request flag ${name} conflicts with ${key}`)
+            }
+        }
+        this.flags[name] = flag
+        return flag
+    }
+
+    /** Remove a custom flag, returns true if it was registered. Protocol flags can not be removed. */
+    unregister(name: string): boolean {
+        if (ProtocolRequestFlags[name] !== undefined || this.flags[name] === undefined) {
+            return false
+        }
+        delete this.flags[name]
+        return true
+    }
+
+    /** Remove all custom flags. */
+    reset() {
+        this.flags = {...ProtocolRequestFlags}
+    }
+
+    /** Return the value of a flag given its name or value. */
+    flag(flag: string | number): number {
+        if (typeof flag === 'number') {
+            return flag
+        }
+        const value = this.flags[flag]
+        if (value === undefined) {
+            throw new InvalidArgumentsError(`Unknown request flag ${flag}`)
+        }
+        return value
+    }
+
+    /** Names of the registered flags that are set in a flag value. */
+    names(value: number): string[] {
+        return Object.keys(this.flags).filter((name) => (value & this.flags[name]) !== 0)
+    }
+
+    /** Bits that are set in a flag value but not registered. */
+    unknownBits(value: number): number {
+        let known = 0
+        for (const name of Object.keys(this.flags)) {
+            known |= this.flags[name]
+        }
+        return value & ~known
+    }
+}
+
+/** Registry with only the protocol flags, used when no registry is given. */
+const protocolRegistry = new RequestFlagRegistry()
+
 @TypeAlias('request_flags')
 export class RequestFlags extends UInt8 {
-    static broadcast = 1 << 0
-    static background = 1 << 1
+    static broadcast = ProtocolRequestFlags.broadcast
+    static background = ProtocolRequestFlags.background
+    /** The identity proof is bound to the `challenge` info key, see the protocol specification. */
+    static identityChallenge = ProtocolRequestFlags.identity_challenge
 
     get broadcast() {
         return (Number(this) & RequestFlags.broadcast) !== 0
@@ -61,12 +143,40 @@ export class RequestFlags extends UInt8 {
         this.setFlag(RequestFlags.background, enabled)
     }
 
-    private setFlag(flag: number, enabled: boolean) {
+    get identityChallenge() {
+        return (Number(this) & RequestFlags.identityChallenge) !== 0
+    }
+    set identityChallenge(enabled: boolean) {
+        this.setFlag(RequestFlags.identityChallenge, enabled)
+    }
+
+    /** Names of the flags that are set, custom flags are named if in the given registry. */
+    names(registry: RequestFlagRegistry = protocolRegistry): string[] {
+        return registry.names(Number(this))
+    }
+
+    /** Bits that are set but not in the registry, these are kept when the request is re-encoded. */
+    unknownBits(registry: RequestFlagRegistry = protocolRegistry): number {
+        return registry.unknownBits(Number(this))
+    }
+
+    /** Whether a flag is set, given its value or its name in the registry. */
+    hasFlag(flag: string | number, registry: RequestFlagRegistry = protocolRegistry): boolean {
+        return (Number(this) & registry.flag(flag)) !== 0
+    }
+
+    /** Set or clear a flag, given its value or its name in the registry. */
+    setFlag(
+        flag: string | number,
+        enabled: boolean,
+        registry: RequestFlagRegistry = protocolRegistry
+    ) {
+        const value = registry.flag(flag)
         if (enabled) {
             // TODO: implement bitwise operators in core, bn.js setbit does not work
-            this.value = UInt8.from(Number(this) | flag).value
+            this.value = UInt8.from(Number(this) | value).value
         } else {
-            this.value = UInt8.from(Number(this) & ~flag).value
+            this.value = UInt8.from(Number(this) & ~value).value
         }
     }
 }
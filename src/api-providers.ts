@@ -0,0 +1,103 @@
+/** Abi and transaction context providers backed by a chain API. */
+
+import {ABI, APIClient, APIError, Blob, Name} from '@wharfkit/antelope'
+
+import {ChainId, ChainIdType} from './chain-id'
+import {MissingAbiError} from './errors'
+import {AccountPermissions, AccountProvider} from './identity-verifier'
+import {AbiProvider, ContextProvider, TransactionContext} from './signing-request'
+
+export interface APIAbiProviderOptions {
+    /**
+     * Whether to fetch the binary ABI with chain/get_raw_abi instead of chain/get_abi,
+     * the binary ABI is smaller and faster to decode. Defaults to true.
+     */
+    raw?: boolean
+}
+
+/** AbiProvider fetching ABIs from a chain API. */
+export class APIAbiProvider implements AbiProvider {
+    readonly client: APIClient
+    readonly raw: boolean
+
+    constructor(client: APIClient, options: APIAbiProviderOptions = {}) {
+        this.client = client
+        this.raw = options.raw !== undefined ? options.raw : true
+    }
+
+    /**
+     * Return the ABI, binary ABIs are returned as is so they can be hashed, see `abiHash`.
+     * @throws {MissingAbiError} If the account has no ABI set.
+     */
+    async getAbi(account: Name): Promise<ABI | Blob> {
+        if (this.raw) {
+            const response = await this.client.v1.chain.get_raw_abi(account)
+            if (response.abi.array.length === 0) {
+                throw new MissingAbiError(account)
+            }
+            return response.abi
+        }
+        const response = await this.client.v1.chain.get_abi(account)
+        if (!response.abi) {
+            throw new MissingAbiError(account)
+        }
+        return ABI.from(response.abi)
+    }
+}
+
+export interface APIContextProviderOptions {
+    /** How many seconds after the head block time the transaction expires, defaults to 60. */
+    expireSeconds?: number
+}
+
+/**
+ * ContextProvider using chain/get_info, the returned context references the last
+ * irreversible block and includes the chain id.
+ */
+export class APIContextProvider implements ContextProvider {
+    readonly client: APIClient
+    readonly expireSeconds: number
+
+    constructor(client: APIClient, options: APIContextProviderOptions = {}) {
+        this.client = client
+        this.expireSeconds = options.expireSeconds !== undefined ? options.expireSeconds : 60
+    }
+
+    async getContext(): Promise<TransactionContext> {
+        const info = await this.client.v1.chain.get_info()
+        const header = info.getTransactionHeader(this.expireSeconds)
+        return {
+            expiration: header.expiration,
+            ref_block_num: header.ref_block_num,
+            ref_block_prefix: header.ref_block_prefix,
+            chainId: info.chain_id,
+        }
+    }
+}
+
+export interface APIAccountProviderOptions {
+    /** The chain the API is for, used to reject identity proofs for other chains. */
+    chainId?: ChainIdType
+}
+
+/** AccountProvider using chain/get_account. */
+export class APIAccountProvider implements AccountProvider {
+    readonly client: APIClient
+    readonly chainId?: ChainId
+
+    constructor(client: APIClient, options: APIAccountProviderOptions = {}) {
+        this.client = client
+        this.chainId = options.chainId !== undefined ? ChainId.from(options.chainId) : undefined
+    }
+
+    async getAccount(account: Name): Promise<AccountPermissions | undefined> {
+        try {
+            return await this.client.v1.chain.get_account(account)
+        } catch (error) {
+            if (error instanceof APIError && error.message.startsWith('Account not found')) {
+                return undefined
+            }
+            throw error
+        }
+    }
+}
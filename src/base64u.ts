@@ -3,6 +3,8 @@
  * Based on https://gist.github.com/jonleighton/958841
  */
 
+import {CorruptedPayloadError} from './errors'
+
 const baseCharset = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
 const lookup = new Uint8Array(256)
 for (let i = 0; i < 62; i++) {
@@ -65,8 +67,17 @@ export function encode(data: Uint8Array, urlSafe = true): string {
     return parts.join('')
 }
 
-export function decode(input: string): Uint8Array {
-    const byteLength = input.length * 0.75
+/**
+ * Decode a base64u or standard base64 string.
+ * In strict mode invalid characters, bad padding and truncated input throw
+ * instead of decoding to garbage, and the output is exactly sized.
+ * @throws {CorruptedPayloadError} If strict and the input is not valid base64.
+ */
+export function decode(input: string, strict = false): Uint8Array {
+    if (strict) {
+        input = validate(input)
+    }
+    const byteLength = strict ? Math.floor((input.length * 3) / 4) : input.length * 0.75
     const data = new Uint8Array(byteLength)
 
     let a: number
@@ -88,3 +99,29 @@ export function decode(input: string): Uint8Array {
 
     return data
 }
+
+/** Check characters and padding, returns the input without padding. */
+function validate(input: string) {
+    let end = input.length
+    while (end > 0 && input[end - 1] === '=') {
+        end--
+    }
+    const padding = input.length - end
+    if (padding > 0 && (padding > 2 || input.length % 4 !== 0)) {
+        throw new CorruptedPayloadError('Invalid base64 padding', end)
+    }
+    for (let i = 0; i < end; i++) {
+        const code = input.charCodeAt(i)
+        // A is the only character that maps to 0
+        if (code > 255 || (lookup[code] === 0 && code !== 65)) {
+            throw new CorruptedPayloadError(
+                `Invalid base64 character ${JSON.stringify(input[i])} at position ${i}`,
+                i
+            )
+        }
+    }
+    if (end % 4 === 1) {
+        throw new CorruptedPayloadError('Truncated base64 input', end)
+    }
+    return input.slice(0, end)
+}
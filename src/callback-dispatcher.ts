@@ -0,0 +1,189 @@
+/** Delivery of resolved request callbacks. */
+
+import {CallbackDeliveryError} from './errors'
+import {ResolvedCallback} from './signing-request'
+
+/** Subset of the fetch api used to deliver http callbacks, compatible with the global `fetch`. */
+export type CallbackFetch = (
+    url: string,
+    init: {
+        method: 'GET' | 'POST'
+        headers: Record<string, string>
+        body?: string
+        signal?: AbortSignal
+    }
+) => Promise<{ok: boolean; status: number}>
+
+/**
+ * Function used to open foreground callbacks and non-http schemes,
+ * e.g. `window.location.assign` in a browser or `Linking.openURL` in React Native.
+ */
+export type CallbackOpener = (url: string) => void | Promise<void>
+
+export interface CallbackDispatcherOptions {
+    /** Fetch implementation used for http callbacks, defaults to the global `fetch`. */
+    fetch?: CallbackFetch
+    /** Opener used for foreground and non-http callbacks. */
+    opener?: CallbackOpener
+    /**
+     * Callback proxy url template, `{{URL}}` will be replaced with the uri encoded callback url.
+     * Only applied to http callbacks, e.g. `https://eosuriproxy.com/redirect/{{URL}}`.
+     */
+    proxy?: string
+    /** How many times to retry a failed http callback, defaults to 3. */
+    retries?: number
+    /** Milliseconds to wait before the first retry, doubled for every subsequent retry. Defaults to 500. */
+    retryDelay?: number
+    /** Milliseconds to wait for a http response before giving up on the attempt. Defaults to 10 seconds. */
+    timeout?: number
+}
+
+export interface CallbackDeliveryResult {
+    /** Whether the callback was delivered. */
+    delivered: boolean
+    /** How the callback was delivered, `POST` and `GET` use fetch and `open` uses the opener. */
+    method: 'POST' | 'GET' | 'open'
+    /** The url that was delivered to, will be the proxy url if a proxy is set. */
+    url: string
+    /** Number of attempts made. */
+    attempts: number
+    /** HTTP status of the last attempt, if any. */
+    status?: number
+    /** Reason delivery failed. */
+    error?: CallbackDeliveryError
+}
+
+/**
+ * Delivers resolved callbacks according to the specification,
+ * background http callbacks are POSTed as JSON, foreground http callbacks
+ * are opened (or fetched with GET if no opener is set) and all other schemes
+ * are handed to the opener.
+ */
+export class CallbackDispatcher {
+    readonly retries: number
+    readonly retryDelay: number
+    readonly timeout: number
+    readonly proxy?: string
+
+    private fetch?: CallbackFetch
+    private opener?: CallbackOpener
+
+    constructor(options: CallbackDispatcherOptions = {}) {
+        if (options.fetch) {
+            this.fetch = options.fetch
+        } else if (typeof fetch !== 'undefined') {
+            this.fetch = (url, init) => fetch(url, init)
+        }
+        this.opener = options.opener
+        this.proxy = options.proxy
+        this.retries = options.retries !== undefined ? options.retries : 3
+        this.retryDelay = options.retryDelay !== undefined ? options.retryDelay : 500
+        this.timeout = options.timeout !== undefined ? options.timeout : 10 * 1000
+    }
+
+    /** Deliver a callback, never throws, check the result for errors. */
+    async dispatch(callback: ResolvedCallback): Promise<CallbackDeliveryResult> {
+        const isHttp = /^https?:\/\//i.test(callback.url)
+        const url = isHttp ? this.proxyUrl(callback.url) : callback.url
+        if (isHttp && callback.background) {
+            const body = JSON.stringify(callback.payload)
+            return this.deliver('POST', url, body)
+        }
+        if (this.opener) {
+            const result: CallbackDeliveryResult = {
+                delivered: false,
+                method: 'open',
+                url,
+                attempts: 1,
+            }
+            try {
+                await this.opener(url)
+                result.delivered = true
+            } catch (error) {
+                result.error = new CallbackDeliveryError(`Unable to open ${url}`, url, error)
+            }
+            return result
+        }
+        if (isHttp) {
+            return this.deliver('GET', url)
+        }
+        return {
+            delivered: false,
+            method: 'open',
+            url,
+            attempts: 0,
+            error: new CallbackDeliveryError(`No opener available for ${url}`, url),
+        }
+    }
+
+    /** Return the url callbacks will be sent to, taking the proxy into account. */
+    proxyUrl(url: string) {
+        if (!this.proxy) {
+            return url
+        }
+        return this.proxy.replace('{{URL}}', encodeURIComponent(url))
+    }
+
+    private async deliver(method: 'GET' | 'POST', url: string, body?: string) {
+        const result: CallbackDeliveryResult = {delivered: false, method, url, attempts: 0}
+        if (!this.fetch) {
+            result.error = new CallbackDeliveryError('No fetch implementation available', url)
+            return result
+        }
+        const headers: Record<string, string> = {}
+        if (body !== undefined) {
+            headers['Content-Type'] = 'application/json'
+        }
+        while (result.attempts <= this.retries) {
+            if (result.attempts > 0) {
+                await sleep(this.retryDelay * 2 ** (result.attempts - 1))
+            }
+            result.attempts++
+            let retry = true
+            try {
+                const response = await this.attempt(url, {method, headers, body})
+                result.status = response.status
+                if (response.ok) {
+                    result.delivered = true
+                    result.error = undefined
+                    break
+                }
+                // only server errors and rate limiting are worth retrying
+                retry = response.status >= 500 || response.status === 429
+                result.error = new CallbackDeliveryError(
+                    `Callback responded with status ${response.status}`,
+                    url,
+                    undefined,
+                    response.status
+                )
+            } catch (error) {
+                result.status = undefined
+                result.error = new CallbackDeliveryError(`Unable to deliver to ${url}`, url, error)
+            }
+            if (!retry) {
+                break
+            }
+        }
+        return result
+    }
+
+    private attempt(url: string, init: Parameters<CallbackFetch>[1]) {
+        const controller =
+            typeof AbortController !== 'undefined' ? new AbortController() : undefined
+        let timer: ReturnType<typeof setTimeout> | undefined
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                if (controller) {
+                    controller.abort()
+                }
+                reject(new Error(`Timed out after ${this.timeout}ms`))
+            }, this.timeout)
+        })
+        const request = this.fetch!(url, {...init, signal: controller && controller.signal})
+        return Promise.race([request, timeout]).finally(() => clearTimeout(timer!))
+    }
+}
+
+function sleep(ms: number) {
+    return new Promise<void>((resolve) => setTimeout(resolve, ms))
+}
@@ -0,0 +1,172 @@
+/** Parsing and validation of incoming callback payloads. */
+
+import {Name, Signature} from '@wharfkit/antelope'
+
+import {InvalidCallbackPayloadError} from './errors'
+import {
+    CallbackPayload,
+    ResolvedSigningRequest,
+    SigningRequestEncodingOptions,
+} from './signing-request'
+
+/**
+ * Raw callback payload as received by a callback handler.
+ * Either the parsed query parameters, a query string (or full url) or a JSON body string or object.
+ */
+export type CallbackPayloadInput = URLSearchParams | string | {[key: string]: unknown}
+
+const hexId = /^[0-9a-f]{64}$/i
+const integer = /^\d+$/
+const timestamp = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,3})?$/
+
+/**
+ * Parse and validate a callback payload.
+ * @throws {InvalidCallbackPayloadError} If a field is missing or malformed.
+ */
+export function parseCallbackPayload(input: CallbackPayloadInput): CallbackPayload {
+    const fields = payloadFields(input)
+    const required = (key: string) => {
+        const value = fields[key]
+        if (value === undefined || value.length === 0) {
+            throw new InvalidCallbackPayloadError(`Missing ${key}`, key)
+        }
+        return value
+    }
+    const check = (key: string, valid: boolean) => {
+        if (!valid) {
+            throw new InvalidCallbackPayloadError(`Invalid ${key}`, key, fields[key])
+        }
+    }
+    const payload: CallbackPayload = {
+        sig: required('sig'),
+        tx: required('tx'),
+        sa: required('sa'),
+        sp: required('sp'),
+        rbn: required('rbn'),
+        rid: required('rid'),
+        req: required('req'),
+        ex: required('ex'),
+    }
+    check('tx', hexId.test(payload.tx))
+    check('sa', Name.pattern.test(payload.sa))
+    check('sp', Name.pattern.test(payload.sp))
+    check('rbn', isUInt(payload.rbn, 0xffff))
+    check('rid', isUInt(payload.rid, 0xffffffff))
+    check('ex', timestamp.test(payload.ex))
+    check('req', /^[\w+.-]+:/.test(payload.req))
+    if (fields.bn !== undefined) {
+        check('bn', isUInt(fields.bn, 0xffffffff))
+        payload.bn = fields.bn
+    }
+    if (fields.cid !== undefined) {
+        check('cid', hexId.test(fields.cid))
+        payload.cid = fields.cid
+    }
+    check('sig', isSignature(payload.sig))
+    for (let n = 0; fields[`sig${n}`] !== undefined; n++) {
+        const key = `sig${n}`
+        check(key, isSignature(fields[key]!))
+        payload[key] = fields[key]
+    }
+    return payload
+}
+
+/**
+ * All signatures in a callback payload, in order.
+ * The first signature is `sig` followed by `sig0` to `sigN`, a leading `sig0`
+ * that repeats `sig` is only included once.
+ */
+export function getCallbackSignatures(payload: CallbackPayload): Signature[] {
+    const signatures = [Signature.from(payload.sig)]
+    for (let n = 0; payload[`sig${n}`] !== undefined; n++) {
+        const sig = Signature.from(payload[`sig${n}`]!)
+        if (n === 0 && sig.equals(signatures[0])) {
+            continue
+        }
+        signatures.push(sig)
+    }
+    return signatures
+}
+
+/**
+ * Parse a callback payload and verify it against its originating request.
+ * Resolves the request in the payload and checks that `tx` matches the
+ * id of the transaction it resolves to.
+ * @returns The resolved request.
+ * @throws {InvalidCallbackPayloadError} If the payload is malformed or the transaction id does not match.
+ */
+export async function verifyCallbackPayload(
+    input: CallbackPayloadInput,
+    options: SigningRequestEncodingOptions = {}
+): Promise<ResolvedSigningRequest> {
+    const payload = parseCallbackPayload(input)
+    let resolved: ResolvedSigningRequest
+    try {
+        resolved = await ResolvedSigningRequest.fromPayload(payload, options)
+    } catch (error) {
+        throw new InvalidCallbackPayloadError(
+            `Unable to resolve request: ${(error as Error).message || error}`,
+            'req',
+            payload.req
+        )
+    }
+    if (!resolved.transaction.id.equals(payload.tx)) {
+        throw new InvalidCallbackPayloadError(
+            'Transaction id does not match request',
+            'tx',
+            payload.tx
+        )
+    }
+    return resolved
+}
+
+function payloadFields(input: CallbackPayloadInput): {[key: string]: string | undefined} {
+    const fields: {[key: string]: string | undefined} = {}
+    if (typeof input === 'string') {
+        const trimmed = input.trim()
+        if (trimmed.startsWith('{')) {
+            let json: unknown
+            try {
+                json = JSON.parse(trimmed)
+            } catch (error) {
+                throw new InvalidCallbackPayloadError('Invalid JSON body')
+            }
+            return payloadFields(json as {[key: string]: unknown})
+        }
+        const query = trimmed.includes('?') ? trimmed.slice(trimmed.indexOf('?') + 1) : trimmed
+        input = new URLSearchParams(query.split('#')[0])
+    }
+    if (input instanceof URLSearchParams) {
+        input.forEach((value, key) => {
+            fields[key] = value
+        })
+        return fields
+    }
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        throw new InvalidCallbackPayloadError('Invalid payload')
+    }
+    for (const key of Object.keys(input)) {
+        const value = input[key]
+        if (typeof value === 'string') {
+            fields[key] = value
+        } else if (typeof value === 'number' && Number.isInteger(value)) {
+            fields[key] = String(value)
+        } else if (value !== undefined && value !== null) {
+            throw new InvalidCallbackPayloadError(`Invalid ${key}`, key, value)
+        }
+    }
+    return fields
+}
+
+function isUInt(value: string, max: number) {
+    return integer.test(value) && Number(value) <= max
+}
+
+function isSignature(value: string) {
+    try {
+        Signature.from(value)
+        return true
+    } catch {
+        return false
+    }
+}
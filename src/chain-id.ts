@@ -1,4 +1,5 @@
 import {
+    Asset,
     Checksum256,
     Checksum256Type,
     isInstanceOf,
@@ -7,6 +8,8 @@ import {
     Variant,
 } from '@wharfkit/antelope'
 
+import {ChainConflictError, UnknownChainAliasError} from './errors'
+
 /** Chain ID aliases. */
 export enum ChainName {
     UNKNOWN = 0,
@@ -33,14 +36,16 @@ export class ChainId extends Checksum256 {
             return value
         }
         if (typeof value === 'number') {
-            value = ChainIdLookup.get(value) as Checksum256Type
-            if (!value) {
-                throw new Error('Unknown chain id alias')
+            const info = Chains.getByAlias(value)
+            if (!info) {
+                throw new UnknownChainAliasError(value)
             }
+            return info.id
         }
         return super.from(value) as ChainId
     }
 
+    /** The chain id to encode, only chains with a protocol alias are encoded as aliases. */
     get chainVariant(): ChainIdVariant {
         const name = this.chainName
         if (name !== ChainName.UNKNOWN) {
@@ -49,15 +54,19 @@ export class ChainId extends Checksum256 {
         return ChainIdVariant.from(this)
     }
 
+    /** The protocol alias of the chain, aliases of registered chains are not included. */
     get chainName(): ChainName {
-        const cid = this.hexString
-        for (const [n, id] of ChainIdLookup) {
-            if (id === cid) {
-                return n
-            }
+        const info = protocolChains.getById(this)
+        if (info && info.alias !== undefined) {
+            return info.alias
         }
         return ChainName.UNKNOWN
     }
+
+    /** Registry entry for this chain, if registered. */
+    get chainInfo(): ChainInfo | undefined {
+        return Chains.getById(this)
+    }
 }
 
 @TypeAlias('chain_alias')
@@ -73,19 +82,240 @@ export class ChainIdVariant extends Variant {
         }
         return ChainId.from(Number(this.value.value))
     }
+
+    /** Registry entry for the chain, if registered. */
+    get chainInfo(): ChainInfo | undefined {
+        if (isInstanceOf(this.value, ChainId)) {
+            return this.value.chainInfo
+        }
+        return Chains.getByAlias(Number(this.value.value))
+    }
+}
+
+/** Chain definition used to register a chain. */
+export interface ChainDefinition {
+    /**
+     * Numeric alias used when decoding the chain id, 1-255.
+     * Aliases not defined by the protocol are never encoded since other signers
+     * can not resolve them, requests for the chain use the full chain id.
+     */
+    alias?: number
+    /** The 32-byte chain id. */
+    id: Checksum256Type
+    /** Unique short name, e.g. `EOS`. */
+    name: string
+    /** Human readable name, defaults to the short name. */
+    displayName?: string
+    /** The core token symbol, e.g. `4,EOS`. */
+    coreSymbol?: Asset.SymbolType
+    /** Whether the chain is a test network. */
+    testnet?: boolean
+}
+
+/** A registered chain. */
+export interface ChainInfo {
+    alias?: number
+    id: ChainId
+    name: string
+    displayName: string
+    coreSymbol?: Asset.Symbol
+    testnet: boolean
 }
 
-const ChainIdLookup = new Map<ChainName, Checksum256Type>([
-    [ChainName.EOS, 'aca376f206b8fc25a6ed44dbdc66547c36c6c33e3a119ffbeaef943642f0e906'],
-    [ChainName.TELOS, '4667b205c6838ef70ff7988f6e8257e8be0e1284a2f59699054a018f743b1d11'],
-    [ChainName.JUNGLE, 'e70aaab8997e1dfce58fbfac80cbbb8fecec7b99cf982a9444273cbc64c41473'],
-    [ChainName.KYLIN, '5fff1dae8dc8e2fc4d5b23b2c7665c97f9e9d8edf2b6485a86ba311c25639191'],
-    [ChainName.WORBLI, '73647cde120091e0a4b85bced2f3cfdb3041e266cbbe95cee59b73235a1b3b6f'],
-    [ChainName.BOS, 'd5a3d18fbb3c084e3b1f3fa98c21014b5f3db536cc15d08f9f6479517c6a3d86'],
-    [ChainName.MEETONE, 'cfe6486a83bad4962f232d48003b1824ab5665c36778141034d75e57b956e422'],
-    [ChainName.INSIGHTS, 'b042025541e25a472bffde2d62edd457b7e70cee943412b1ea0f044f88591664'],
-    [ChainName.BEOS, 'b912d19a6abd2b1b05611ae5be473355d64d95aeff0c09bedc8c166cd6468fe4'],
-    [ChainName.WAX, '1064487b3cd1a897ce03ae5b6a865651747e2e152090f99c1d19d44e01aea5a4'],
-    [ChainName.PROTON, '384da888112027f0321850a169f737c33e53b388aad48b5adace4bab97f437e0'],
-    [ChainName.FIO, '21dcae42c0182200e93f954a074011f9048a7624c6fe81d3c9541a614a88bd1c'],
-])
+/** Registry of known chains, used to resolve chain aliases and names. */
+export class ChainRegistry {
+    private byId = new Map<string, ChainInfo>()
+    private byAlias = new Map<number, ChainInfo>()
+    private byName = new Map<string, ChainInfo>()
+
+    constructor(definitions: ChainDefinition[] = []) {
+        for (const definition of definitions) {
+            this.register(definition)
+        }
+    }
+
+    /**
+     * Register a chain.
+     * @param definition The chain to register.
+     * @param replace Whether to replace existing entries with the same id, alias or name.
+     * @throws If the id, alias or name conflicts with an existing entry and `replace` is not set.
+     */
+    register(definition: ChainDefinition, replace = false): ChainInfo {
+        const info: ChainInfo = {
+            alias: definition.alias,
+            id: ChainId.from(definition.id),
+            name: definition.name,
+            displayName: definition.displayName || definition.name,
+            coreSymbol: definition.coreSymbol
+                ? Asset.Symbol.from(definition.coreSymbol)
+                : undefined,
+            testnet: definition.testnet || false,
+        }
+        if (info.alias !== undefined) {
+            if (!Number.isInteger(info.alias) || info.alias < 1 || info.alias > 255) {
+                throw new ChainConflictError(`Invalid chain alias ${info.alias}`, info)
+            }
+        }
+        const conflicts = [
+            this.byId.get(info.id.hexString),
+            info.alias !== undefined ? this.byAlias.get(info.alias) : undefined,
+            this.byName.get(info.name.toUpperCase()),
+        ].filter((entry): entry is ChainInfo => entry !== undefined)
+        if (conflicts.length > 0) {
+            if (!replace) {
+                const existing = conflicts[0]
+                throw new ChainConflictError(
+                    `Chain ${info.name} conflicts with registered chain ${existing.name}`,
+                    info,
+                    existing
+                )
+            }
+            for (const entry of conflicts) {
+                this.unregister(entry.id)
+            }
+        }
+        this.byId.set(info.id.hexString, info)
+        if (info.alias !== undefined) {
+            this.byAlias.set(info.alias, info)
+        }
+        this.byName.set(info.name.toUpperCase(), info)
+        return info
+    }
+
+    /** Remove a chain from the registry, returns true if it was registered. */
+    unregister(id: ChainIdType): boolean {
+        const info = this.get(id)
+        if (!info) {
+            return false
+        }
+        this.byId.delete(info.id.hexString)
+        if (info.alias !== undefined) {
+            this.byAlias.delete(info.alias)
+        }
+        this.byName.delete(info.name.toUpperCase())
+        return true
+    }
+
+    /** Look up chain by alias, chain id or name. */
+    get(value: ChainIdType | string): ChainInfo | undefined {
+        if (typeof value === 'number') {
+            return this.getByAlias(value)
+        }
+        if (typeof value === 'string' && !/^[0-9a-f]{64}$/i.test(value)) {
+            return this.getByName(value)
+        }
+        return this.getById(value)
+    }
+
+    /** Look up chain by its numeric alias. */
+    getByAlias(alias: number): ChainInfo | undefined {
+        return this.byAlias.get(alias)
+    }
+
+    /** Look up chain by its chain id. */
+    getById(id: Checksum256Type): ChainInfo | undefined {
+        return this.byId.get(Checksum256.from(id).hexString)
+    }
+
+    /** Look up chain by its short name, case insensitive. */
+    getByName(name: string): ChainInfo | undefined {
+        return this.byName.get(name.toUpperCase())
+    }
+
+    /** All registered chains, ordered by alias with unaliased chains last. */
+    list(): ChainInfo[] {
+        return Array.from(this.byId.values()).sort(
+            (a, b) =>
+                (a.alias === undefined ? 256 : a.alias) - (b.alias === undefined ? 256 : b.alias)
+        )
+    }
+}
+
+/** The chains with aliases defined by the protocol. */
+export const ChainDefinitions: ChainDefinition[] = [
+    {
+        alias: ChainName.EOS,
+        name: 'EOS',
+        id: 'aca376f206b8fc25a6ed44dbdc66547c36c6c33e3a119ffbeaef943642f0e906',
+        coreSymbol: '4,EOS',
+    },
+    {
+        alias: ChainName.TELOS,
+        name: 'TELOS',
+        displayName: 'Telos',
+        id: '4667b205c6838ef70ff7988f6e8257e8be0e1284a2f59699054a018f743b1d11',
+        coreSymbol: '4,TLOS',
+    },
+    {
+        alias: ChainName.JUNGLE,
+        name: 'JUNGLE',
+        displayName: 'Jungle 2 (Testnet)',
+        id: 'e70aaab8997e1dfce58fbfac80cbbb8fecec7b99cf982a9444273cbc64c41473',
+        coreSymbol: '4,EOS',
+        testnet: true,
+    },
+    {
+        alias: ChainName.KYLIN,
+        name: 'KYLIN',
+        displayName: 'Kylin (Testnet)',
+        id: '5fff1dae8dc8e2fc4d5b23b2c7665c97f9e9d8edf2b6485a86ba311c25639191',
+        coreSymbol: '4,EOS',
+        testnet: true,
+    },
+    {
+        alias: ChainName.WORBLI,
+        name: 'WORBLI',
+        id: '73647cde120091e0a4b85bced2f3cfdb3041e266cbbe95cee59b73235a1b3b6f',
+        coreSymbol: '4,WBI',
+    },
+    {
+        alias: ChainName.BOS,
+        name: 'BOS',
+        id: 'd5a3d18fbb3c084e3b1f3fa98c21014b5f3db536cc15d08f9f6479517c6a3d86',
+        coreSymbol: '4,BOS',
+    },
+    {
+        alias: ChainName.MEETONE,
+        name: 'MEETONE',
+        displayName: 'MEET.ONE',
+        id: 'cfe6486a83bad4962f232d48003b1824ab5665c36778141034d75e57b956e422',
+        coreSymbol: '4,MEETONE',
+    },
+    {
+        alias: ChainName.INSIGHTS,
+        name: 'INSIGHTS',
+        displayName: 'Insights',
+        id: 'b042025541e25a472bffde2d62edd457b7e70cee943412b1ea0f044f88591664',
+    },
+    {
+        alias: ChainName.BEOS,
+        name: 'BEOS',
+        id: 'b912d19a6abd2b1b05611ae5be473355d64d95aeff0c09bedc8c166cd6468fe4',
+        coreSymbol: '4,BEOS',
+    },
+    {
+        alias: ChainName.WAX,
+        name: 'WAX',
+        id: '1064487b3cd1a897ce03ae5b6a865651747e2e152090f99c1d19d44e01aea5a4',
+        coreSymbol: '8,WAX',
+    },
+    {
+        alias: ChainName.PROTON,
+        name: 'PROTON',
+        displayName: 'Proton',
+        id: '384da888112027f0321850a169f737c33e53b388aad48b5adace4bab97f437e0',
+        coreSymbol: '4,XPR',
+    },
+    {
+        alias: ChainName.FIO,
+        name: 'FIO',
+        id: '21dcae42c0182200e93f954a074011f9048a7624c6fe81d3c9541a614a88bd1c',
+        coreSymbol: '9,FIO',
+    },
+]
+
+/** The default chain registry, used when decoding chain ids. */
+export const Chains = new ChainRegistry(ChainDefinitions)
+
+/** The protocol aliases, the only ones used when encoding chain ids. */
+const protocolChains = new ChainRegistry(ChainDefinitions)
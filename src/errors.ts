@@ -0,0 +1,261 @@
+/** Signing request error types. */
+
+import {Checksum256, Name, NameType} from '@wharfkit/antelope'
+
+import type {ChainId, ChainInfo} from './chain-id'
+
+/** Stable, machine-readable error codes. */
+export enum ErrorCode {
+    UNSUPPORTED_VERSION = 'E_UNSUPPORTED_VERSION',
+    INVALID_REQUEST = 'E_INVALID_REQUEST',
+    INVALID_ARGUMENTS = 'E_INVALID_ARGUMENTS',
+    MISSING_ABI_PROVIDER = 'E_MISSING_ABI_PROVIDER',
+    MISSING_ABI = 'E_MISSING_ABI',
+    MISSING_ACTION_TYPE = 'E_MISSING_ACTION_TYPE',
+    INVALID_TAPOS = 'E_INVALID_TAPOS',
+    CHAIN_MISMATCH = 'E_CHAIN_MISMATCH',
+    UNKNOWN_CHAIN_ALIAS = 'E_UNKNOWN_CHAIN_ALIAS',
+    CHAIN_CONFLICT = 'E_CHAIN_CONFLICT',
+    MISSING_SIGNATURE = 'E_MISSING_SIGNATURE',
+    NOT_IDENTITY_REQUEST = 'E_NOT_IDENTITY_REQUEST',
+    INVALID_IDENTITY_PROOF = 'E_INVALID_IDENTITY_PROOF',
+    CALLBACK_DELIVERY = 'E_CALLBACK_DELIVERY',
+    INVALID_CALLBACK_PAYLOAD = 'E_INVALID_CALLBACK_PAYLOAD',
+    QR_CAPACITY = 'E_QR_CAPACITY',
+    INVALID_REQUEST_PART = 'E_INVALID_REQUEST_PART',
+    ABI_HASH_MISMATCH = 'E_ABI_HASH_MISMATCH',
+    CORRUPTED_PAYLOAD = 'E_CORRUPTED_PAYLOAD',
+}
+
+/** Base class for all errors thrown by this library. */
+export class SigningRequestError extends Error {
+    /** Stable error code, safe to branch on. */
+    readonly code: ErrorCode
+
+    constructor(code: ErrorCode, message: string) {
+        super(message)
+        this.name = this.constructor.name
+        this.code = code
+    }
+}
+
+/** Thrown when decoding a request with a protocol version that is not supported. */
+export class UnsupportedVersionError extends SigningRequestError {
+    /** The protocol version of the request. */
+    readonly version: number
+
+    constructor(version: number) {
+        super(ErrorCode.UNSUPPORTED_VERSION, 'Unsupported protocol version')
+        this.version = version
+    }
+}
+
+/** Thrown when the request data or uri is malformed. */
+export class InvalidRequestError extends SigningRequestError {
+    constructor(message = 'Invalid signing request data') {
+        super(ErrorCode.INVALID_REQUEST, message)
+    }
+}
+
+/**
+ * Thrown when the arguments passed to create a request are inconsistent.
+ * Breaking: argument errors were thrown as `TypeError` before error codes were added,
+ * catch `InvalidArgumentsError` or check for `ErrorCode.INVALID_ARGUMENTS` instead.
+ */
+export class InvalidArgumentsError extends SigningRequestError {
+    constructor(message: string) {
+        super(ErrorCode.INVALID_ARGUMENTS, message)
+    }
+}
+
+/** Thrown when ABIs need to be fetched but no provider is available. */
+export class MissingAbiProviderError extends SigningRequestError {
+    constructor() {
+        super(ErrorCode.MISSING_ABI_PROVIDER, 'Missing ABI provider')
+    }
+}
+
+/** Thrown when the ABI for a contract is needed but not available. */
+export class MissingAbiError extends SigningRequestError {
+    /** The contract account missing an ABI. */
+    readonly account: Name
+
+    constructor(account: NameType) {
+        super(ErrorCode.MISSING_ABI, `Missing ABI definition for ${account}`)
+        this.account = Name.from(account)
+    }
+}
+
+/** Thrown when a contract ABI does not define the type of an action. */
+export class MissingActionTypeError extends SigningRequestError {
+    /** The contract account. */
+    readonly account: Name
+    /** The action name. */
+    readonly action: Name
+
+    constructor(account: NameType, action: NameType) {
+        super(ErrorCode.MISSING_ACTION_TYPE, `Missing type for action ${account}:${action} in ABI`)
+        this.account = Name.from(account)
+        this.action = Name.from(action)
+    }
+}
+
+/** Thrown when a transaction context does not contain enough data to set TaPoS values. */
+export class InvalidTaposError extends SigningRequestError {
+    constructor() {
+        super(
+            ErrorCode.INVALID_TAPOS,
+            'Invalid transaction context, need either a reference block or explicit TaPoS values'
+        )
+    }
+}
+
+/** Thrown when resolving a request for a chain it is not valid for. */
+export class ChainMismatchError extends SigningRequestError {
+    /** The chain ID the request was resolved for, if any. */
+    readonly chainId?: ChainId
+    /** The chain IDs the request is valid for, if constrained. */
+    readonly chainIds?: ChainId[]
+
+    constructor(message: string, chainId?: ChainId, chainIds?: ChainId[]) {
+        super(ErrorCode.CHAIN_MISMATCH, message)
+        this.chainId = chainId
+        this.chainIds = chainIds
+    }
+}
+
+/** Thrown when looking up a chain alias that is not known. */
+export class UnknownChainAliasError extends SigningRequestError {
+    /** The unknown alias. */
+    readonly alias: number
+
+    constructor(alias: number) {
+        super(ErrorCode.UNKNOWN_CHAIN_ALIAS, 'Unknown chain id alias')
+        this.alias = alias
+    }
+}
+
+/** Thrown when registering a chain that conflicts with an already registered chain. */
+export class ChainConflictError extends SigningRequestError {
+    /** The chain that was being registered. */
+    readonly chain: ChainInfo
+    /** The registered chain it conflicts with, if any. */
+    readonly existing?: ChainInfo
+
+    constructor(message: string, chain: ChainInfo, existing?: ChainInfo) {
+        super(ErrorCode.CHAIN_CONFLICT, message)
+        this.chain = chain
+        this.existing = existing
+    }
+}
+
+/** Thrown when a signature is required but none was given. */
+export class MissingSignatureError extends SigningRequestError {
+    constructor(message: string) {
+        super(ErrorCode.MISSING_SIGNATURE, message)
+    }
+}
+
+/** Thrown when an identity operation is performed on a non-identity request. */
+export class NotIdentityRequestError extends SigningRequestError {
+    constructor(message = 'Not an identity request') {
+        super(ErrorCode.NOT_IDENTITY_REQUEST, message)
+    }
+}
+
+/** Thrown when an identity proof can not be decoded. */
+export class InvalidIdentityProofError extends SigningRequestError {
+    constructor(message = 'Invalid IdentityProof string') {
+        super(ErrorCode.INVALID_IDENTITY_PROOF, message)
+    }
+}
+
+/** Describes why a callback could not be delivered. */
+export class CallbackDeliveryError extends SigningRequestError {
+    /** The url delivery was attempted to. */
+    readonly url: string
+    /** The underlying error, if any. */
+    readonly cause?: unknown
+    /** HTTP response status, if a response was received. */
+    readonly status?: number
+
+    constructor(message: string, url: string, cause?: unknown, status?: number) {
+        super(ErrorCode.CALLBACK_DELIVERY, message)
+        this.url = url
+        this.cause = cause
+        this.status = status
+    }
+}
+
+/** Thrown when a callback payload is malformed or does not match its request. */
+export class InvalidCallbackPayloadError extends SigningRequestError {
+    /** The offending payload field, if any. */
+    readonly field?: string
+    /** The offending value, if any. */
+    readonly value?: unknown
+
+    constructor(message: string, field?: string, value?: unknown) {
+        super(ErrorCode.INVALID_CALLBACK_PAYLOAD, message)
+        this.field = field
+        this.value = value
+    }
+}
+
+/** Thrown when data does not fit in a QR Code. */
+export class QRCapacityError extends SigningRequestError {
+    /** Length of the data, in characters or bytes depending on encoding mode. */
+    readonly length: number
+    /** Maximum length that fits in the largest allowed QR Code. */
+    readonly capacity: number
+    /** Error correction level used. */
+    readonly errorCorrection: string
+
+    constructor(length: number, capacity: number, errorCorrection: string) {
+        super(
+            ErrorCode.QR_CAPACITY,
+            `Data length ${length} exceeds QR Code capacity of ${capacity} (error correction ${errorCorrection})`
+        )
+        this.length = length
+        this.capacity = capacity
+        this.errorCorrection = errorCorrection
+    }
+}
+
+/** Thrown when a request part is malformed, or parts can not be reassembled. */
+export class InvalidRequestPartError extends SigningRequestError {
+    /** 0-based index of the offending part, if any. */
+    readonly index?: number
+
+    constructor(message: string, index?: number) {
+        super(ErrorCode.INVALID_REQUEST_PART, message)
+        this.index = index
+    }
+}
+
+/** Thrown when an ABI does not match the hash it is pinned to. */
+export class AbiHashMismatchError extends SigningRequestError {
+    /** The contract account. */
+    readonly account: Name
+    /** The pinned hash. */
+    readonly expected: Checksum256
+    /** Hash of the ABI returned by the provider. */
+    readonly actual: Checksum256
+
+    constructor(account: NameType, expected: Checksum256, actual: Checksum256) {
+        super(ErrorCode.ABI_HASH_MISMATCH, `ABI hash mismatch for ${account}`)
+        this.account = Name.from(account)
+        this.expected = expected
+        this.actual = actual
+    }
+}
+
+/** Thrown when an encoded request payload is corrupted, e.g. by a bad or truncated scan. */
+export class CorruptedPayloadError extends SigningRequestError {
+    /** Position of the offending character in the encoded payload, if known. */
+    readonly position?: number
+
+    constructor(message: string, position?: number) {
+        super(ErrorCode.CORRUPTED_PAYLOAD, message)
+        this.position = position
+    }
+}
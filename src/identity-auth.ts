@@ -0,0 +1,295 @@
+/** Authentication of HTTP requests using `EOSIO` identity proof authorization headers. */
+
+import {Name, NameType, PermissionLevel, PublicKey} from '@wharfkit/antelope'
+
+import {ChainId, ChainIdType} from './chain-id'
+import {InvalidArgumentsError} from './errors'
+import {IdentityProof} from './identity-proof'
+import {
+    AccountProvider,
+    IdentityProofStatus,
+    IdentityProofVerifier,
+    IdentityProofVerifierOptions,
+} from './identity-verifier'
+
+/** Reason a request could not be authenticated, sent as the `error` of 401 responses. */
+export enum IdentityAuthReason {
+    MISSING_PROOF = 'missing_proof',
+    INVALID_PROOF = 'invalid_proof',
+    INVALID_SIGNATURE = 'invalid_signature',
+    CHALLENGE_MISMATCH = 'challenge_mismatch',
+    SCOPE_MISMATCH = 'scope_mismatch',
+    CHAIN_NOT_ALLOWED = 'chain_not_allowed',
+    EXPIRED = 'expired',
+    PERMISSION_NOT_FOUND = 'permission_not_found',
+    KEY_NOT_IN_AUTHORITY = 'key_not_in_authority',
+    REPLAYED = 'replayed',
+}
+
+const reasonMessages: Record<IdentityAuthReason, string> = {
+    [IdentityAuthReason.MISSING_PROOF]: 'Missing EOSIO authorization header',
+    [IdentityAuthReason.INVALID_PROOF]: 'Malformed identity proof',
+    [IdentityAuthReason.INVALID_SIGNATURE]: 'Invalid identity proof signature',
+    [IdentityAuthReason.CHALLENGE_MISMATCH]: 'Identity proof challenge mismatch',
+    [IdentityAuthReason.SCOPE_MISMATCH]: 'Identity proof is for another scope',
+    [IdentityAuthReason.CHAIN_NOT_ALLOWED]: 'Identity proof chain is not allowed',
+    [IdentityAuthReason.EXPIRED]: 'Identity proof has expired',
+    [IdentityAuthReason.PERMISSION_NOT_FOUND]: 'Signer permission not found',
+    [IdentityAuthReason.KEY_NOT_IN_AUTHORITY]: 'Signing key is not in the signer authority',
+    [IdentityAuthReason.REPLAYED]: 'Identity proof has already been used',
+}
+
+type InvalidProofStatus = Exclude<IdentityProofStatus, IdentityProofStatus.VALID>
+
+const statusReasons: Record<InvalidProofStatus, IdentityAuthReason> = {
+    [IdentityProofStatus.EXPIRED]: IdentityAuthReason.EXPIRED,
+    [IdentityProofStatus.CHAIN_MISMATCH]: IdentityAuthReason.CHAIN_NOT_ALLOWED,
+    [IdentityProofStatus.INVALID_SIGNATURE]: IdentityAuthReason.INVALID_SIGNATURE,
+    [IdentityProofStatus.CHALLENGE_MISMATCH]: IdentityAuthReason.CHALLENGE_MISMATCH,
+    [IdentityProofStatus.PERMISSION_NOT_FOUND]: IdentityAuthReason.PERMISSION_NOT_FOUND,
+    [IdentityProofStatus.KEY_NOT_IN_AUTHORITY]: IdentityAuthReason.KEY_NOT_IN_AUTHORITY,
+    [IdentityProofStatus.REPLAYED]: IdentityAuthReason.REPLAYED,
+}
+
+/** An authenticated identity, attached to the request context. */
+export interface IdentityAuthentication {
+    /** The authenticated account permission. */
+    permission: PermissionLevel
+    chainId: ChainId
+    proof: IdentityProof
+    /** The key that signed the proof. */
+    key: PublicKey
+}
+
+export type IdentityAuthResult =
+    | {authenticated: true; identity: IdentityAuthentication}
+    | {authenticated: false; reason: IdentityAuthReason; message: string}
+
+export interface IdentityAuthOptions {
+    /** The identity request scope proofs must be for, e.g. the name of the application. */
+    scope: NameType
+    /**
+     * Source of account authorities, either a single provider or a function returning the
+     * provider for a chain. Chains the function returns undefined for are not allowed.
+     */
+    accountProvider: AccountProvider | ((chainId: ChainId) => AccountProvider | undefined)
+    /**
+     * Chains proofs are accepted for. Defaults to the chain of a single account provider,
+     * which must then be set, or the chains the provider function returns a provider for.
+     */
+    chains?: ChainIdType[]
+    /** Options for the verifiers, e.g. the account cache ttl or replay protection. */
+    verifierOptions?: Omit<IdentityProofVerifierOptions, 'chainId'>
+    /** Property the identity is attached to, `req.identity` or `ctx.state.identity` in Koa. */
+    property?: string
+}
+
+/** Minimal incoming request, compatible with node's `http.IncomingMessage` and Express. */
+export interface IdentityAuthRequest {
+    headers: Record<string, string | string[] | undefined>
+}
+
+/** Minimal server response, compatible with node's `http.ServerResponse` and Express. */
+export interface IdentityAuthResponse {
+    statusCode: number
+    headersSent?: boolean
+    setHeader(name: string, value: string): unknown
+    end(body?: string): unknown
+}
+
+/** Minimal Koa context. */
+export interface IdentityAuthKoaContext {
+    headers: Record<string, string | string[] | undefined>
+    state: Record<string, unknown>
+    status: number
+    body: unknown
+    set(name: string, value: string): unknown
+}
+
+/**
+ * Authenticates `Authorization: EOSIO <proof>` headers, verifying the proof against the
+ * configured scope, chains and the signer's on-chain authority.
+ */
+export class IdentityAuthenticator {
+    readonly scope: Name
+    readonly chains?: ChainId[]
+    readonly property: string
+
+    private accountProvider: IdentityAuthOptions['accountProvider']
+    private verifierOptions: IdentityProofVerifierOptions
+    private verifiers = new Map<string, IdentityProofVerifier>()
+
+    constructor(options: IdentityAuthOptions) {
+        this.scope = Name.from(options.scope)
+        if (options.chains) {
+            this.chains = options.chains.map((id) => ChainId.from(id))
+        } else if (typeof options.accountProvider !== 'function') {
+            // a single provider only has the accounts of one chain
+            if (!options.accountProvider.chainId) {
+                throw new InvalidArgumentsError(
+                    'Set chains or the chain id of the account provider'
+                )
+            }
+            this.chains = [options.accountProvider.chainId]
+        }
+        this.property = options.property || 'identity'
+        this.accountProvider = options.accountProvider
+        this.verifierOptions = options.verifierOptions || {}
+    }
+
+    /**
+     * Authenticate an authorization header value.
+     * Rejects only if the account provider fails, invalid proofs resolve to a reason.
+     */
+    async authenticate(header: string | string[] | undefined): Promise<IdentityAuthResult> {
+        if (Array.isArray(header)) {
+            header = header[0]
+        }
+        if (!header || !/^EOSIO /i.test(header)) {
+            return failure(IdentityAuthReason.MISSING_PROOF)
+        }
+        let proof: IdentityProof
+        try {
+            proof = IdentityProof.fromString('EOSIO ' + header.slice(6).trim())
+        } catch {
+            return failure(IdentityAuthReason.INVALID_PROOF)
+        }
+        if (!proof.scope.equals(this.scope)) {
+            return failure(IdentityAuthReason.SCOPE_MISMATCH)
+        }
+        if (this.chains && !this.chains.some((id) => id.equals(proof.chainId))) {
+            return failure(IdentityAuthReason.CHAIN_NOT_ALLOWED)
+        }
+        const verifier = this.getVerifier(proof.chainId)
+        if (!verifier) {
+            return failure(IdentityAuthReason.CHAIN_NOT_ALLOWED)
+        }
+        const result = await verifier.verify(proof)
+        if (result.status !== IdentityProofStatus.VALID) {
+            return failure(statusReasons[result.status])
+        }
+        return {
+            authenticated: true,
+            identity: {
+                permission: proof.signer,
+                chainId: proof.chainId,
+                proof,
+                key: result.key!,
+            },
+        }
+    }
+
+    /** Return the verifier for an allowed chain, chains are checked before calling this. */
+    private getVerifier(chainId: ChainId) {
+        const key = String(chainId)
+        let verifier = this.verifiers.get(key)
+        if (!verifier) {
+            const provider =
+                typeof this.accountProvider === 'function'
+                    ? this.accountProvider(chainId)
+                    : this.accountProvider
+            if (!provider) {
+                return undefined
+            }
+            verifier = new IdentityProofVerifier(provider, {...this.verifierOptions, chainId})
+            this.verifiers.set(key, verifier)
+        }
+        return verifier
+    }
+}
+
+/**
+ * Wrap a node `http` request handler, the handler is only called for authenticated
+ * requests with the identity attached to the request. Errors thrown by the handler are
+ * passed to `onError`, by default they are answered with a 500 response.
+ *
+ * ```
+ * http.createServer(withIdentityAuth((req, res) => res.end(`Hello ${req.identity.permission}`), {
+ *     scope: 'myapp',
+ *     accountProvider: new APIAccountProvider(client, {chainId: ChainName.EOS}),
+ * }))
+ * ```
+ */
+export function withIdentityAuth<Req extends IdentityAuthRequest, Res extends IdentityAuthResponse>(
+    handler: (req: Req & {identity: IdentityAuthentication}, res: Res) => unknown,
+    options: IdentityAuthOptions | IdentityAuthenticator,
+    onError: (error: unknown, req: Req, res: Res) => void = (error, req, res) => serverError(res)
+) {
+    const middleware = identityAuthMiddleware<Req, Res>(options)
+    return (req: Req, res: Res) => {
+        middleware(req, res, (error?: unknown) => {
+            if (error) {
+                serverError(res, 'Unable to verify identity')
+            } else {
+                Promise.resolve()
+                    .then(() => handler(req as Req & {identity: IdentityAuthentication}, res))
+                    .catch((error) => onError(error, req, res))
+            }
+        })
+    }
+}
+
+/** Express and Connect compatible middleware, responds with 401 to unauthenticated requests. */
+export function identityAuthMiddleware<
+    Req extends IdentityAuthRequest,
+    Res extends IdentityAuthResponse
+>(options: IdentityAuthOptions | IdentityAuthenticator) {
+    const authenticator = getAuthenticator(options)
+    return (req: Req, res: Res, next: (error?: unknown) => void) => {
+        authenticator.authenticate(req.headers.authorization).then(
+            (result) => {
+                if (result.authenticated) {
+                    Object.assign(req, {[authenticator.property]: result.identity})
+                    next()
+                } else {
+                    res.statusCode = 401
+                    res.setHeader('WWW-Authenticate', challenge(result.reason, result.message))
+                    res.setHeader('Content-Type', 'application/json')
+                    res.end(JSON.stringify({error: result.reason, message: result.message}))
+                }
+            },
+            (error) => next(error)
+        )
+    }
+}
+
+/** Koa compatible middleware, attaches the identity to `ctx.state`. */
+export function koaIdentityAuthMiddleware(options: IdentityAuthOptions | IdentityAuthenticator) {
+    const authenticator = getAuthenticator(options)
+    return async (ctx: IdentityAuthKoaContext, next: () => Promise<unknown>) => {
+        const result = await authenticator.authenticate(ctx.headers.authorization)
+        if (result.authenticated) {
+            ctx.state[authenticator.property] = result.identity
+            await next()
+        } else {
+            ctx.status = 401
+            ctx.set('WWW-Authenticate', challenge(result.reason, result.message))
+            ctx.body = {error: result.reason, message: result.message}
+        }
+    }
+}
+
+function getAuthenticator(options: IdentityAuthOptions | IdentityAuthenticator) {
+    return options instanceof IdentityAuthenticator ? options : new IdentityAuthenticator(options)
+}
+
+function failure(reason: IdentityAuthReason): IdentityAuthResult {
+    return {authenticated: false, reason, message: reasonMessages[reason]}
+}
+
+function challenge(reason: IdentityAuthReason, message: string) {
+    if (reason === IdentityAuthReason.MISSING_PROOF) {
+        return 'EOSIO'
+    }
+    return `EOSIO error="${reason}", error_description="${message}"`
+}
+
+function serverError(res: IdentityAuthResponse, message = 'Internal server error') {
+    if (res.headersSent) {
+        res.end()
+        return
+    }
+    res.statusCode = 500
+    res.setHeader('Content-Type', 'application/json')
+    res.end(JSON.stringify({error: 'server_error', message}))
+}
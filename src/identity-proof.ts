@@ -2,6 +2,8 @@ import {
     Action,
     Authority,
     AuthorityType,
+    Bytes,
+    BytesType,
     isInstanceOf,
     Name,
     NameType,
@@ -21,6 +23,7 @@ import {IdentityV3} from './abi'
 import {ChainId, ChainIdType} from './chain-id'
 import {CallbackPayload, SigningRequest, SigningRequestEncodingOptions} from './signing-request'
 import * as Base64u from './base64u'
+import {InvalidIdentityProofError, NotIdentityRequestError} from './errors'
 
 export type IdentityProofType =
     | IdentityProof
@@ -31,8 +34,15 @@ export type IdentityProofType =
           expiration: TimePointType
           signer: PermissionLevelType
           signature: SignatureType
+          challenge?: BytesType | null
       }
 
+/**
+ * Transaction extension type used to bind a challenge to the identity proof transaction,
+ * only added for requests with the `identity_challenge` flag, see the protocol specification.
+ */
+export const IdentityChallengeExtension = 0xe5c1
+
 @Struct.type('identity_proof')
 export class IdentityProof extends Struct {
     @Struct.field(ChainId) chainId!: ChainId
@@ -40,6 +50,8 @@ export class IdentityProof extends Struct {
     @Struct.field(TimePointSec) expiration!: TimePointSec
     @Struct.field(PermissionLevel) signer!: PermissionLevel
     @Struct.field(Signature) signature!: Signature
+    /** Server-issued challenge included in the signed transaction, if any. */
+    @Struct.field('bytes', {extension: true}) challenge?: Bytes | null
 
     static from(value: IdentityProofType): IdentityProof {
         if (isInstanceOf(value, IdentityProof)) {
@@ -58,7 +70,7 @@ export class IdentityProof extends Struct {
     static fromString(string: string) {
         const parts = string.split(' ')
         if (parts.length !== 2 || parts[0] !== 'EOSIO') {
-            throw new Error('Invalid IdentityProof string')
+            throw new InvalidIdentityProofError()
         }
         const data = Base64u.decode(parts[1])
         return Serializer.decode({data, type: IdentityProof})
@@ -68,7 +80,7 @@ export class IdentityProof extends Struct {
     static fromPayload(payload: CallbackPayload, options: SigningRequestEncodingOptions = {}) {
         const request = SigningRequest.from(payload.req, options)
         if (!(request.version >= 3 && request.isIdentity())) {
-            throw new Error('Not an identity request')
+            throw new NotIdentityRequestError()
         }
         return this.from({
             chainId: payload.cid || request.getChainId(),
@@ -76,6 +88,7 @@ export class IdentityProof extends Struct {
             expiration: payload.ex,
             signer: {actor: payload.sa, permission: payload.sp},
             signature: payload.sig,
+            challenge: request.getIdentityChallenge(),
         })
     }
 
@@ -95,6 +108,9 @@ export class IdentityProof extends Struct {
             ref_block_prefix: 0,
             expiration: this.expiration,
             actions: [action],
+            transaction_extensions: this.challenge
+                ? [{type: IdentityChallengeExtension, data: this.challenge}]
+                : [],
         })
     }
 
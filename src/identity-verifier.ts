@@ -0,0 +1,229 @@
+/** Verification of identity proofs against on-chain account permissions. */
+
+import {
+    Authority,
+    AuthorityType,
+    Bytes,
+    BytesType,
+    Name,
+    NameType,
+    PublicKey,
+    TimePointSec,
+    TimePointType,
+} from '@wharfkit/antelope'
+
+import {ChainId, ChainIdType} from './chain-id'
+import {IdentityProof, IdentityProofType} from './identity-proof'
+import {MemoryCache} from './memory-cache'
+
+/** The permissions of an account, compatible with the chain/get_account response. */
+export interface AccountPermissions {
+    permissions: {perm_name: NameType; required_auth: AuthorityType}[]
+}
+
+/** Interface that should be implemented by account providers. */
+export interface AccountProvider {
+    /** The chain the accounts are on, if known. */
+    readonly chainId?: ChainId
+    /** Return the account permissions, or undefined if the account does not exist. */
+    getAccount: (account: Name) => Promise<AccountPermissions | undefined>
+}
+
+/**
+ * Store of seen identity proofs used to reject replayed proofs,
+ * e.g. backed by redis when running multiple servers.
+ */
+export interface SeenProofStore {
+    /**
+     * Record a proof, resolving to false if it was already recorded.
+     * @param id Unique id of the proof.
+     * @param expires When the proof expires and can be forgotten, in milliseconds since the epoch.
+     */
+    add(id: string, expires: number): boolean | Promise<boolean>
+}
+
+/** In-memory SeenProofStore, expired proofs are pruned at most once a minute. */
+export class MemorySeenProofStore implements SeenProofStore {
+    private seen = new Map<string, number>()
+    private now: () => number
+    private nextPrune = 0
+
+    constructor(now: () => number = Date.now) {
+        this.now = now
+    }
+
+    add(id: string, expires: number) {
+        const now = this.now()
+        if (now >= this.nextPrune) {
+            for (const [key, value] of this.seen) {
+                if (value <= now) {
+                    this.seen.delete(key)
+                }
+            }
+            this.nextPrune = now + 60 * 1000
+        }
+        const seen = this.seen.get(id)
+        if (seen !== undefined && seen > now) {
+            return false
+        }
+        this.seen.set(id, expires)
+        return true
+    }
+}
+
+/** Outcome of an identity proof verification. */
+export enum IdentityProofStatus {
+    VALID = 'valid',
+    EXPIRED = 'expired',
+    CHAIN_MISMATCH = 'chain_mismatch',
+    INVALID_SIGNATURE = 'invalid_signature',
+    CHALLENGE_MISMATCH = 'challenge_mismatch',
+    PERMISSION_NOT_FOUND = 'permission_not_found',
+    KEY_NOT_IN_AUTHORITY = 'key_not_in_authority',
+    REPLAYED = 'replayed',
+}
+
+export interface IdentityProofVerification {
+    /** True if the status is `IdentityProofStatus.VALID`. */
+    valid: boolean
+    status: IdentityProofStatus
+    proof: IdentityProof
+    /** The key that signed the proof, set if it was recovered. */
+    key?: PublicKey
+    /** The signer's permission authority, if found. */
+    authority?: Authority
+}
+
+export interface IdentityProofVerifierOptions {
+    /** Chain the account provider is for, proofs for other chains are rejected. */
+    chainId?: ChainIdType
+    /** How long account lookups are cached, in milliseconds. Defaults to 1 minute. */
+    ttl?: number
+    /** Max number of accounts kept in the cache. Defaults to 1000. */
+    maxEntries?: number
+    /** Clock used for proof expiry and the cache, defaults to `Date.now`. */
+    now?: () => number
+    /**
+     * Check the challenge a proof is bound to, e.g. against the challenge issued for the session.
+     * Called with null for proofs without a challenge, return false to reject the proof.
+     */
+    checkChallenge?: (challenge: Bytes | null, proof: IdentityProof) => boolean | Promise<boolean>
+    /** Reject proofs that have already been verified before they expire. Defaults to false. */
+    replayProtection?: boolean
+    /** Store used for replay protection, defaults to a `MemorySeenProofStore`. */
+    seenProofs?: SeenProofStore
+}
+
+interface AccountCacheEntry {
+    account?: AccountPermissions
+    fetched: number
+}
+
+/**
+ * Verifies identity proofs by loading the signer's permission from an account provider.
+ *
+ * ```
+ * const verifier = new IdentityProofVerifier(new APIAccountProvider(client))
+ * const result = await verifier.verify(request.headers.authorization)
+ * if (!result.valid) throw new Error(`Invalid proof: ${result.status}`)
+ * ```
+ */
+export class IdentityProofVerifier {
+    readonly chainId?: ChainId
+    readonly ttl: number
+    readonly maxEntries: number
+    readonly replayProtection: boolean
+
+    private provider: AccountProvider
+    private now: () => number
+    private checkChallenge?: IdentityProofVerifierOptions['checkChallenge']
+    private seenProofs: SeenProofStore
+    private cache: MemoryCache<AccountCacheEntry>
+
+    constructor(provider: AccountProvider, options: IdentityProofVerifierOptions = {}) {
+        this.provider = provider
+        this.chainId = options.chainId !== undefined ? ChainId.from(options.chainId) : undefined
+        this.ttl = options.ttl !== undefined ? options.ttl : 60 * 1000
+        this.maxEntries = options.maxEntries !== undefined ? options.maxEntries : 1000
+        this.cache = new MemoryCache(this.maxEntries)
+        this.now = options.now || Date.now
+        this.checkChallenge = options.checkChallenge
+        this.replayProtection = options.replayProtection || false
+        this.seenProofs = options.seenProofs || new MemorySeenProofStore(this.now)
+    }
+
+    /**
+     * Verify an identity proof.
+     * @param value The proof, e.g. an `EOSIO <base64payload>` authorization header.
+     * @param currentTime Time to verify expiry against, if unset will use the verifier clock.
+     * @param challenge The challenge the proof must be bound to, if any.
+     */
+    async verify(
+        value: IdentityProofType,
+        currentTime?: TimePointType,
+        challenge?: BytesType
+    ): Promise<IdentityProofVerification> {
+        const proof = IdentityProof.from(value)
+        const result = (status: IdentityProofStatus, key?: PublicKey, authority?: Authority) => ({
+            valid: status === IdentityProofStatus.VALID,
+            status,
+            proof,
+            key,
+            authority,
+        })
+        if (this.chainId && !this.chainId.equals(proof.chainId)) {
+            return result(IdentityProofStatus.CHAIN_MISMATCH)
+        }
+        const now = TimePointSec.from(currentTime || new Date(this.now())).toMilliseconds()
+        if (now >= proof.expiration.toMilliseconds()) {
+            return result(IdentityProofStatus.EXPIRED)
+        }
+        if (challenge !== undefined && !(proof.challenge && proof.challenge.equals(challenge))) {
+            return result(IdentityProofStatus.CHALLENGE_MISMATCH)
+        }
+        if (this.checkChallenge && !(await this.checkChallenge(proof.challenge || null, proof))) {
+            return result(IdentityProofStatus.CHALLENGE_MISMATCH)
+        }
+        let key: PublicKey
+        try {
+            key = proof.recover()
+        } catch {
+            return result(IdentityProofStatus.INVALID_SIGNATURE)
+        }
+        const {account} = await this.getAccount(proof.signer.actor)
+        const permission = account
+            ? account.permissions.find((p) => proof.signer.permission.equals(p.perm_name))
+            : undefined
+        if (!permission) {
+            return result(IdentityProofStatus.PERMISSION_NOT_FOUND, key)
+        }
+        const authority = Authority.from(permission.required_auth)
+        if (!authority.hasPermission(key)) {
+            return result(IdentityProofStatus.KEY_NOT_IN_AUTHORITY, key, authority)
+        }
+        if (this.replayProtection) {
+            const id = String(proof.transaction.signingDigest(proof.chainId))
+            if (!(await this.seenProofs.add(id, proof.expiration.toMilliseconds()))) {
+                return result(IdentityProofStatus.REPLAYED, key, authority)
+            }
+        }
+        return result(IdentityProofStatus.VALID, key, authority)
+    }
+
+    /** Remove an account from the cache, or all accounts if no account is given. */
+    invalidate(account?: NameType) {
+        if (account) {
+            this.cache.delete(String(account))
+        } else {
+            this.cache.clear()
+        }
+    }
+
+    private getAccount(account: Name) {
+        return this.cache.get(
+            String(account),
+            (entry) => this.now() - entry.fetched < this.ttl,
+            async () => ({account: await this.provider.getAccount(account), fetched: this.now()})
+        )
+    }
+}
@@ -1,5 +1,21 @@
 export * from './signing-request'
 export * from './abi'
+export * from './abi-cache'
+export * from './api-providers'
 export * from './chain-id'
 export * from './identity-proof'
+export * from './identity-verifier'
+export * from './identity-auth'
+export * from './errors'
+export * from './callback-dispatcher'
+export * from './callback-payload'
+export * from './qrcode'
+export * from './request-parts'
+export * from './request-builder'
+export * from './request-diff'
+export * from './request-object'
+export * from './request-uri'
+export * from './request-summary'
+export * from './risk-analysis'
+export {BuiltinZlib} from './zlib'
 export * as Base64u from './base64u'
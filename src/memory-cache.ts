@@ -0,0 +1,61 @@
+/** In-memory cache shared by the ABI cache and the identity proof verifier. */
+
+/**
+ * Least recently used cache, concurrent loads of the same key are deduplicated.
+ * Entries are kept until evicted, expiry is up to the `isValid` check of the caller.
+ */
+export class MemoryCache<T> {
+    readonly maxEntries: number
+
+    private entries = new Map<string, T>()
+    private pending = new Map<string, Promise<T>>()
+
+    constructor(maxEntries: number) {
+        this.maxEntries = maxEntries
+    }
+
+    /**
+     * Return the cached value for a key, loading it if not cached or not valid.
+     * @param isValid Whether a cached value can be used.
+     * @param load Load the value, e.g. from a persistent store or a provider.
+     */
+    get(key: string, isValid: (value: T) => boolean, load: () => Promise<T>): Promise<T> {
+        let pending = this.pending.get(key)
+        if (!pending) {
+            pending = this.resolve(key, isValid, load).finally(() => this.pending.delete(key))
+            this.pending.set(key, pending)
+        }
+        return pending
+    }
+
+    /** Add or replace a value, evicting the least recently used values if full. */
+    set(key: string, value: T) {
+        // reinsert to keep the map in least recently used order
+        this.entries.delete(key)
+        this.entries.set(key, value)
+        while (this.entries.size > this.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value)
+        }
+    }
+
+    delete(key: string) {
+        this.entries.delete(key)
+    }
+
+    clear() {
+        this.entries.clear()
+    }
+
+    keys(): string[] {
+        return Array.from(this.entries.keys())
+    }
+
+    private async resolve(key: string, isValid: (value: T) => boolean, load: () => Promise<T>) {
+        let value = this.entries.get(key)
+        if (value === undefined || !isValid(value)) {
+            value = await load()
+        }
+        this.set(key, value)
+        return value
+    }
+}
@@ -0,0 +1,671 @@
+/**
+ * QR Code encoder for signing requests.
+ * Based on the QR Code generator library by Project Nayuki (MIT License)
+ * https://www.nayuki.io/page/qr-code-generator-library
+ */
+
+import {Bytes} from '@wharfkit/antelope'
+
+import {QRCapacityError} from './errors'
+import {SigningRequest} from './signing-request'
+
+/** Error correction level, from lowest (L ~7% recovery) to highest (H ~30% recovery). */
+export type QRErrorCorrection = 'L' | 'M' | 'Q' | 'H'
+
+/** Segment encoding mode. */
+export type QRMode = 'numeric' | 'alphanumeric' | 'byte'
+
+export interface QRCodeOptions {
+    /** Minimum error correction level, defaults to `M`. */
+    errorCorrection?: QRErrorCorrection
+    /**
+     * Whether to use a higher error correction level than requested if the data
+     * still fits in the same version, defaults to true.
+     */
+    boostErrorCorrection?: boolean
+    /** Smallest version (size) to consider, 1-40. Defaults to 1. */
+    minVersion?: number
+    /** Largest version (size) to consider, 1-40. Defaults to 40. */
+    maxVersion?: number
+}
+
+export interface QRCodeRequestOptions extends QRCodeOptions {
+    /** Whether to compress the request, defaults to true. */
+    compress?: boolean
+    /** Whether to add slashes after the scheme, i.e. `esr://`. Defaults to true. */
+    slashes?: boolean
+    /** The uri scheme, defaults to `esr:`. */
+    scheme?: string
+}
+
+export interface QRCodeSVGOptions {
+    /** Quiet zone around the code in modules, defaults to 4. */
+    margin?: number
+    /** Size in pixels of each module, defaults to 4. */
+    scale?: number
+    /** Color of dark modules, defaults to `#000`. */
+    color?: string
+    /** Color of light modules, defaults to `#fff`. */
+    background?: string
+}
+
+export interface QRCodeTerminalOptions {
+    /** Quiet zone around the code in modules, defaults to 2. */
+    margin?: number
+    /**
+     * Render dark modules as filled blocks, for terminals with a light background.
+     * Defaults to false, i.e. light modules are filled.
+     */
+    invert?: boolean
+}
+
+const ErrorCorrectionLevels: QRErrorCorrection[] = ['L', 'M', 'Q', 'H']
+
+// format bits for L, M, Q, H
+const FormatBits = [1, 0, 3, 2]
+
+// indexed by error correction level and version
+const EccCodewordsPerBlock = [
+    // prettier-ignore
+    [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+    // prettier-ignore
+    [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+    // prettier-ignore
+    [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+    // prettier-ignore
+    [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+]
+const NumErrorCorrectionBlocks = [
+    // prettier-ignore
+    [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+    // prettier-ignore
+    [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+    // prettier-ignore
+    [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+    // prettier-ignore
+    [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+]
+
+const AlphanumericCharset = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:'
+
+// mode indicator and character count bits for versions 1-9, 10-26 and 27-40
+const ModeBits: Record<QRMode, {indicator: number; count: number[]}> = {
+    numeric: {indicator: 0x1, count: [10, 12, 14]},
+    alphanumeric: {indicator: 0x2, count: [9, 11, 13]},
+    byte: {indicator: 0x4, count: [8, 16, 16]},
+}
+
+/** A QR Code symbol, create using `QRCode.encode` or `QRCode.fromRequest`. */
+export class QRCode {
+    /** Encode a signing request as a QR Code. */
+    static fromRequest(request: SigningRequest, options: QRCodeRequestOptions = {}): QRCode {
+        const uri = request.encode(options.compress, options.slashes, options.scheme)
+        return QRCode.encode(uri, options)
+    }
+
+    /**
+     * Encode text as a QR Code using the smallest version and most compact mode that fits.
+     * @throws {QRCapacityError} If the text does not fit in the largest allowed version.
+     */
+    static encode(text: string, options: QRCodeOptions = {}): QRCode {
+        const minVersion = options.minVersion || 1
+        const maxVersion = options.maxVersion || 40
+        if (minVersion < 1 || maxVersion > 40 || minVersion > maxVersion) {
+            throw new RangeError('Invalid QR Code version range')
+        }
+        let ecl = ErrorCorrectionLevels.indexOf(options.errorCorrection || 'M')
+        if (ecl === -1) {
+            throw new RangeError('Invalid QR Code error correction level')
+        }
+        const mode = getMode(text)
+        const data = mode === 'byte' ? Bytes.from(text, 'utf8').array : text
+        let version = minVersion
+        let dataBits: number
+        for (;;) {
+            const capacityBits = numDataCodewords(version, ecl) * 8
+            dataBits = segmentBits(mode, data.length, version)
+            if (dataBits <= capacityBits) {
+                break
+            }
+            if (version >= maxVersion) {
+                throw new QRCapacityError(
+                    data.length,
+                    maxCharacters(mode, maxVersion, ecl),
+                    ErrorCorrectionLevels[ecl]
+                )
+            }
+            version++
+        }
+        if (options.boostErrorCorrection !== false) {
+            while (ecl < 3 && dataBits <= numDataCodewords(version, ecl + 1) * 8) {
+                ecl++
+            }
+        }
+
+        const bits: number[] = []
+        appendBits(ModeBits[mode].indicator, 4, bits)
+        appendBits(data.length, characterCountBits(mode, version), bits)
+        appendData(mode, data, bits)
+        const capacityBits = numDataCodewords(version, ecl) * 8
+        appendBits(0, Math.min(4, capacityBits - bits.length), bits)
+        appendBits(0, (8 - (bits.length % 8)) % 8, bits)
+        for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+            appendBits(pad, 8, bits)
+        }
+        const codewords: number[] = []
+        for (let i = 0; i < bits.length; i += 8) {
+            let byte = 0
+            for (let j = 0; j < 8; j++) {
+                byte = (byte << 1) | bits[i + j]
+            }
+            codewords.push(byte)
+        }
+        return new QRCode(version, ErrorCorrectionLevels[ecl], mode, codewords)
+    }
+
+    /** The version number, 1-40. */
+    readonly version: number
+    /** Width and height of the symbol in modules, not including quiet zone. */
+    readonly size: number
+    /** The error correction level used. */
+    readonly errorCorrection: QRErrorCorrection
+    /** The segment mode used for the data. */
+    readonly mode: QRMode
+    /** The mask pattern used, 0-7. */
+    readonly mask: number
+    /** Module matrix indexed as `[y][x]`, true for dark modules. */
+    readonly modules: boolean[][]
+
+    private isFunction: boolean[][]
+
+    private constructor(
+        version: number,
+        errorCorrection: QRErrorCorrection,
+        mode: QRMode,
+        codewords: number[]
+    ) {
+        this.version = version
+        this.size = version * 4 + 17
+        this.errorCorrection = errorCorrection
+        this.mode = mode
+        this.modules = []
+        this.isFunction = []
+        for (let i = 0; i < this.size; i++) {
+            this.modules.push(new Array<boolean>(this.size).fill(false))
+            this.isFunction.push(new Array<boolean>(this.size).fill(false))
+        }
+        this.drawFunctionPatterns()
+        this.drawCodewords(this.addEccAndInterleave(codewords))
+        let mask = 0
+        let minPenalty = Infinity
+        for (let i = 0; i < 8; i++) {
+            this.applyMask(i)
+            this.drawFormatBits(i)
+            const penalty = this.getPenaltyScore()
+            if (penalty < minPenalty) {
+                mask = i
+                minPenalty = penalty
+            }
+            this.applyMask(i) // undo
+        }
+        this.mask = mask
+        this.applyMask(mask)
+        this.drawFormatBits(mask)
+    }
+
+    /** Whether the module at given coordinates is dark, out of bounds coordinates are light. */
+    getModule(x: number, y: number): boolean {
+        return x >= 0 && x < this.size && y >= 0 && y < this.size && this.modules[y][x]
+    }
+
+    /** Render as SVG markup. */
+    toSVG(options: QRCodeSVGOptions = {}): string {
+        const margin = options.margin !== undefined ? options.margin : 4
+        const scale = options.scale || 4
+        const color = options.color || '#000'
+        const background = options.background || '#fff'
+        const dim = this.size + margin * 2
+        const parts: string[] = []
+        for (let y = 0; y < this.size; y++) {
+            for (let x = 0; x < this.size; x++) {
+                if (this.modules[y][x]) {
+                    parts.push(`M${x + margin},${y + margin}h1v1h-1z`)
+                }
+            }
+        }
+        return (
+            `<svg xmlns="http://www.w3.org/2000/svg" version="1.1" viewBox="0 0 ${dim} ${dim}"` +
+            ` width="${dim * scale}" height="${dim * scale}" shape-rendering="crispEdges">` +
+            `<rect width="100%" height="100%" fill="${background}"/>` +
+            `<path d="${parts.join('')}" fill="${color}"/>` +
+            '</svg>'
+        )
+    }
+
+    /** Render for display in a terminal using unicode half blocks, two rows per line. */
+    toTerminal(options: QRCodeTerminalOptions = {}): string {
+        const margin = options.margin !== undefined ? options.margin : 2
+        const filled = (x: number, y: number) => this.getModule(x, y) === !!options.invert
+        const lines: string[] = []
+        for (let y = -margin; y < this.size + margin; y += 2) {
+            let line = ''
+            for (let x = -margin; x < this.size + margin; x++) {
+                const top = filled(x, y)
+                const bottom = y + 1 < this.size + margin ? filled(x, y + 1) : false
+                line += top ? (bottom ? '█' : '▀') : bottom ? '▄' : ' '
+            }
+            lines.push(line)
+        }
+        return lines.join('\n')
+    }
+
+    private setFunctionModule(x: number, y: number, dark: boolean) {
+        this.modules[y][x] = dark
+        this.isFunction[y][x] = true
+    }
+
+    private drawFunctionPatterns() {
+        const size = this.size
+        for (let i = 0; i < size; i++) {
+            this.setFunctionModule(6, i, i % 2 === 0)
+            this.setFunctionModule(i, 6, i % 2 === 0)
+        }
+        this.drawFinderPattern(3, 3)
+        this.drawFinderPattern(size - 4, 3)
+        this.drawFinderPattern(3, size - 4)
+        const positions = alignmentPatternPositions(this.version)
+        const num = positions.length
+        for (let i = 0; i < num; i++) {
+            for (let j = 0; j < num; j++) {
+                const isFinder =
+                    (i === 0 && j === 0) || (i === 0 && j === num - 1) || (i === num - 1 && j === 0)
+                if (!isFinder) {
+                    this.drawAlignmentPattern(positions[i], positions[j])
+                }
+            }
+        }
+        this.drawFormatBits(0) // dummy, overwritten after masking
+        this.drawVersion()
+    }
+
+    private drawFormatBits(mask: number) {
+        const data = (FormatBits[ErrorCorrectionLevels.indexOf(this.errorCorrection)] << 3) | mask
+        let rem = data
+        for (let i = 0; i < 10; i++) {
+            rem = (rem << 1) ^ ((rem >>> 9) * 0x537)
+        }
+        const bits = ((data << 10) | rem) ^ 0x5412
+        const size = this.size
+        for (let i = 0; i <= 5; i++) {
+            this.setFunctionModule(8, i, getBit(bits, i))
+        }
+        this.setFunctionModule(8, 7, getBit(bits, 6))
+        this.setFunctionModule(8, 8, getBit(bits, 7))
+        this.setFunctionModule(7, 8, getBit(bits, 8))
+        for (let i = 9; i < 15; i++) {
+            this.setFunctionModule(14 - i, 8, getBit(bits, i))
+        }
+        for (let i = 0; i < 8; i++) {
+            this.setFunctionModule(size - 1 - i, 8, getBit(bits, i))
+        }
+        for (let i = 8; i < 15; i++) {
+            this.setFunctionModule(8, size - 15 + i, getBit(bits, i))
+        }
+        this.setFunctionModule(8, size - 8, true) // always dark
+    }
+
+    private drawVersion() {
+        if (this.version < 7) {
+            return
+        }
+        let rem = this.version
+        for (let i = 0; i < 12; i++) {
+            rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25)
+        }
+        const bits = (this.version << 12) | rem
+        for (let i = 0; i < 18; i++) {
+            const bit = getBit(bits, i)
+            const a = this.size - 11 + (i % 3)
+            const b = Math.floor(i / 3)
+            this.setFunctionModule(a, b, bit)
+            this.setFunctionModule(b, a, bit)
+        }
+    }
+
+    private drawFinderPattern(x: number, y: number) {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const dist = Math.max(Math.abs(dx), Math.abs(dy))
+                const xx = x + dx
+                const yy = y + dy
+                if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+                    this.setFunctionModule(xx, yy, dist !== 2 && dist !== 4)
+                }
+            }
+        }
+    }
+
+    private drawAlignmentPattern(x: number, y: number) {
+        for (let dy = -2; dy <= 2; dy++) {
+            for (let dx = -2; dx <= 2; dx++) {
+                this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+            }
+        }
+    }
+
+    private addEccAndInterleave(data: number[]): number[] {
+        const ecl = ErrorCorrectionLevels.indexOf(this.errorCorrection)
+        const numBlocks = NumErrorCorrectionBlocks[ecl][this.version]
+        const blockEccLen = EccCodewordsPerBlock[ecl][this.version]
+        const rawCodewords = Math.floor(numRawDataModules(this.version) / 8)
+        const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+        const shortBlockLen = Math.floor(rawCodewords / numBlocks)
+        const divisor = reedSolomonDivisor(blockEccLen)
+        const blocks: number[][] = []
+        for (let i = 0, k = 0; i < numBlocks; i++) {
+            const dat = data.slice(
+                k,
+                k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1)
+            )
+            k += dat.length
+            const ecc = reedSolomonRemainder(dat, divisor)
+            if (i < numShortBlocks) {
+                dat.push(0)
+            }
+            blocks.push(dat.concat(ecc))
+        }
+        const result: number[] = []
+        for (let i = 0; i < blocks[0].length; i++) {
+            blocks.forEach((block, j) => {
+                // skip the padding byte in short blocks
+                if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+                    result.push(block[i])
+                }
+            })
+        }
+        return result
+    }
+
+    private drawCodewords(data: number[]) {
+        const size = this.size
+        let i = 0
+        for (let right = size - 1; right >= 1; right -= 2) {
+            if (right === 6) {
+                right = 5
+            }
+            for (let vert = 0; vert < size; vert++) {
+                for (let j = 0; j < 2; j++) {
+                    const x = right - j
+                    const upward = ((right + 1) & 2) === 0
+                    const y = upward ? size - 1 - vert : vert
+                    if (!this.isFunction[y][x] && i < data.length * 8) {
+                        this.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7))
+                        i++
+                    }
+                }
+            }
+        }
+    }
+
+    private applyMask(mask: number) {
+        for (let y = 0; y < this.size; y++) {
+            for (let x = 0; x < this.size; x++) {
+                let invert: boolean
+                switch (mask) {
+                    case 0:
+                        invert = (x + y) % 2 === 0
+                        break
+                    case 1:
+                        invert = y % 2 === 0
+                        break
+                    case 2:
+                        invert = x % 3 === 0
+                        break
+                    case 3:
+                        invert = (x + y) % 3 === 0
+                        break
+                    case 4:
+                        invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+                        break
+                    case 5:
+                        invert = ((x * y) % 2) + ((x * y) % 3) === 0
+                        break
+                    case 6:
+                        invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0
+                        break
+                    default:
+                        invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+                        break
+                }
+                if (!this.isFunction[y][x] && invert) {
+                    this.modules[y][x] = !this.modules[y][x]
+                }
+            }
+        }
+    }
+
+    private getPenaltyScore(): number {
+        const size = this.size
+        let result = 0
+        // adjacent modules in row or column having same color, and finder-like patterns
+        for (let pass = 0; pass < 2; pass++) {
+            for (let a = 0; a < size; a++) {
+                let runColor = false
+                let runLength = 0
+                const runHistory = [0, 0, 0, 0, 0, 0, 0]
+                for (let b = 0; b < size; b++) {
+                    const color = pass === 0 ? this.modules[a][b] : this.modules[b][a]
+                    if (color === runColor) {
+                        runLength++
+                        if (runLength === 5) {
+                            result += 3
+                        } else if (runLength > 5) {
+                            result++
+                        }
+                    } else {
+                        this.addRunHistory(runLength, runHistory)
+                        if (!runColor) {
+                            result += this.countFinderPatterns(runHistory) * 40
+                        }
+                        runColor = color
+                        runLength = 1
+                    }
+                }
+                if (runColor) {
+                    this.addRunHistory(runLength, runHistory)
+                    runLength = 0
+                }
+                this.addRunHistory(runLength + size, runHistory)
+                result += this.countFinderPatterns(runHistory) * 40
+            }
+        }
+        // 2x2 blocks of modules having same color
+        for (let y = 0; y < size - 1; y++) {
+            for (let x = 0; x < size - 1; x++) {
+                const color = this.modules[y][x]
+                if (
+                    color === this.modules[y][x + 1] &&
+                    color === this.modules[y + 1][x] &&
+                    color === this.modules[y + 1][x + 1]
+                ) {
+                    result += 3
+                }
+            }
+        }
+        // balance of dark and light modules
+        let dark = 0
+        for (const row of this.modules) {
+            dark = row.reduce((sum, color) => sum + (color ? 1 : 0), dark)
+        }
+        const total = size * size
+        const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1
+        result += k * 10
+        return result
+    }
+
+    private addRunHistory(runLength: number, runHistory: number[]) {
+        if (runHistory[0] === 0) {
+            runLength += this.size // add light border to initial run
+        }
+        runHistory.pop()
+        runHistory.unshift(runLength)
+    }
+
+    private countFinderPatterns(runHistory: number[]): number {
+        const n = runHistory[1]
+        const core =
+            n > 0 &&
+            runHistory[2] === n &&
+            runHistory[3] === n * 3 &&
+            runHistory[4] === n &&
+            runHistory[5] === n
+        return (
+            (core && runHistory[0] >= n * 4 && runHistory[6] >= n ? 1 : 0) +
+            (core && runHistory[6] >= n * 4 && runHistory[0] >= n ? 1 : 0)
+        )
+    }
+}
+
+function getMode(text: string): QRMode {
+    if (/^[0-9]*$/.test(text)) {
+        return 'numeric'
+    }
+    if (/^[A-Z0-9 $%*+./:-]*$/.test(text)) {
+        return 'alphanumeric'
+    }
+    return 'byte'
+}
+
+function characterCountBits(mode: QRMode, version: number) {
+    return ModeBits[mode].count[Math.floor((version + 7) / 17)]
+}
+
+/** Number of bits needed to encode a segment, including header. */
+function segmentBits(mode: QRMode, length: number, version: number) {
+    const countBits = characterCountBits(mode, version)
+    if (length >= 1 << countBits) {
+        return Infinity
+    }
+    let dataBits: number
+    switch (mode) {
+        case 'numeric':
+            dataBits = Math.floor(length / 3) * 10 + [0, 4, 7][length % 3]
+            break
+        case 'alphanumeric':
+            dataBits = Math.floor(length / 2) * 11 + (length % 2) * 6
+            break
+        default:
+            dataBits = length * 8
+    }
+    return 4 + countBits + dataBits
+}
+
+function maxCharacters(mode: QRMode, version: number, ecl: number) {
+    const capacity = numDataCodewords(version, ecl) * 8
+    let length = 0
+    while (segmentBits(mode, length + 1, version) <= capacity) {
+        length++
+    }
+    return length
+}
+
+function appendData(mode: QRMode, data: string | Uint8Array, bits: number[]) {
+    if (mode === 'byte') {
+        for (const byte of data as Uint8Array) {
+            appendBits(byte, 8, bits)
+        }
+    } else if (mode === 'numeric') {
+        const digits = data as string
+        for (let i = 0; i < digits.length; i += 3) {
+            const chunk = digits.slice(i, i + 3)
+            appendBits(parseInt(chunk, 10), chunk.length * 3 + 1, bits)
+        }
+    } else {
+        const text = data as string
+        for (let i = 0; i < text.length; i += 2) {
+            const a = AlphanumericCharset.indexOf(text[i])
+            if (i + 1 < text.length) {
+                appendBits(a * 45 + AlphanumericCharset.indexOf(text[i + 1]), 11, bits)
+            } else {
+                appendBits(a, 6, bits)
+            }
+        }
+    }
+}
+
+function appendBits(value: number, length: number, bits: number[]) {
+    for (let i = length - 1; i >= 0; i--) {
+        bits.push((value >>> i) & 1)
+    }
+}
+
+function getBit(value: number, i: number): boolean {
+    return ((value >>> i) & 1) !== 0
+}
+
+function numRawDataModules(version: number): number {
+    let result = (16 * version + 128) * version + 64
+    if (version >= 2) {
+        const numAlign = Math.floor(version / 7) + 2
+        result -= (25 * numAlign - 10) * numAlign - 55
+        if (version >= 7) {
+            result -= 36
+        }
+    }
+    return result
+}
+
+function numDataCodewords(version: number, ecl: number): number {
+    return (
+        Math.floor(numRawDataModules(version) / 8) -
+        EccCodewordsPerBlock[ecl][version] * NumErrorCorrectionBlocks[ecl][version]
+    )
+}
+
+function alignmentPatternPositions(version: number): number[] {
+    if (version === 1) {
+        return []
+    }
+    const numAlign = Math.floor(version / 7) + 2
+    const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2
+    const result = [6]
+    for (let pos = version * 4 + 10; result.length < numAlign; pos -= step) {
+        result.splice(1, 0, pos)
+    }
+    return result
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+    const result: number[] = new Array(degree - 1).fill(0)
+    result.push(1)
+    let root = 1
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < result.length; j++) {
+            result[j] = reedSolomonMultiply(result[j], root)
+            if (j + 1 < result.length) {
+                result[j] ^= result[j + 1]
+            }
+        }
+        root = reedSolomonMultiply(root, 0x02)
+    }
+    return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+    const result = divisor.map(() => 0)
+    for (const byte of data) {
+        const factor = byte ^ result.shift()!
+        result.push(0)
+        divisor.forEach((coef, i) => (result[i] ^= reedSolomonMultiply(coef, factor)))
+    }
+    return result
+}
+
+function reedSolomonMultiply(x: number, y: number): number {
+    let z = 0
+    for (let i = 7; i >= 0; i--) {
+        z = (z << 1) ^ ((z >>> 7) * 0x11d)
+        z ^= ((y >>> i) & 1) * x
+    }
+    return z
+}
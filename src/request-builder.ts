@@ -0,0 +1,273 @@
+/** Step by step construction of signing requests. */
+
+import {
+    ABIDef,
+    ABISerializable,
+    ABISerializableType,
+    AnyAction,
+    AnyTransaction,
+    Bytes,
+    BytesType,
+    isInstanceOf,
+    NameType,
+    Serializer,
+    SignatureType,
+    TimePointType,
+    TransactionHeaderFields,
+    UInt16Type,
+} from '@wharfkit/antelope'
+
+import {RequestSignature} from './abi'
+import {ChainIdType} from './chain-id'
+import {InvalidArgumentsError} from './errors'
+import {
+    CallbackType,
+    SigningRequest,
+    SigningRequestCreateArguments,
+    SigningRequestEncodingOptions,
+} from './signing-request'
+
+/** What a request builder contains, requests can only be created once it is not empty. */
+export type RequestBuilderState = 'empty' | 'actions' | 'identity'
+
+export interface RequestBuilderIdentity {
+    /** Scope of the identity request, makes the request version 3. */
+    scope?: NameType
+    /** Requested account, defaults to any account. */
+    account?: NameType
+    /** Requested permission, defaults to any permission. */
+    permission?: NameType
+    /** Server-issued challenge the identity proof will be bound to, requires a scope. */
+    challenge?: BytesType
+}
+
+/**
+ * Fluent builder for signing requests, the most compact request variant and
+ * protocol version is picked when the request is created.
+ *
+ * ```
+ * const request = new SigningRequestBuilder()
+ *     .chain(ChainName.WAX)
+ *     .action(transfer)
+ *     .action(memo)
+ *     .callback('https://example.com/done', true)
+ *     .createSync()
+ * ```
+ */
+export class SigningRequestBuilder<State extends RequestBuilderState = 'empty'> {
+    /** The builder state, only used for type checking. */
+    declare readonly state: State
+
+    private actionList: AnyAction[] = []
+    private contextFreeActionList: AnyAction[] = []
+    private transactionFields: Partial<AnyTransaction> = {}
+    private identityArgs?: RequestBuilderIdentity
+    private chainId?: ChainIdType | null
+    private chainIds?: ChainIdType[]
+    private callbackValue?: CallbackType
+    private broadcastValue?: boolean
+    private flagValues: [string | number, boolean][] = []
+    private infoValues: Record<string, Bytes> = {}
+    private signatureValue?: RequestSignature
+
+    /** Add one or more actions. */
+    action<S extends 'empty' | 'actions'>(
+        this: SigningRequestBuilder<S>,
+        ...actions: AnyAction[]
+    ): SigningRequestBuilder<'actions'> {
+        this.actionList.push(...actions)
+        return this as unknown as SigningRequestBuilder<'actions'>
+    }
+
+    /** Add one or more context free actions, the request will contain a full transaction. */
+    contextFreeAction<S extends 'empty' | 'actions'>(
+        this: SigningRequestBuilder<S>,
+        ...actions: AnyAction[]
+    ): SigningRequestBuilder<'actions'> {
+        this.contextFreeActionList.push(...actions)
+        return this as unknown as SigningRequestBuilder<'actions'>
+    }
+
+    /** Make this an identity request. */
+    identity(
+        this: SigningRequestBuilder<'empty'>,
+        identity: RequestBuilderIdentity = {}
+    ): SigningRequestBuilder<'identity'> {
+        this.identityArgs = identity
+        return this as unknown as SigningRequestBuilder<'identity'>
+    }
+
+    /**
+     * Set transaction header fields, the request will contain a full transaction.
+     * TaPoS values that are omitted are filled in when the request is resolved.
+     */
+    header<S extends 'empty' | 'actions'>(
+        this: SigningRequestBuilder<S>,
+        header: Partial<TransactionHeaderFields>
+    ): SigningRequestBuilder<S> {
+        Object.assign(this.transactionFields, header)
+        return this
+    }
+
+    /** Set the transaction expiration, the request will contain a full transaction. */
+    expiration<S extends 'empty' | 'actions'>(
+        this: SigningRequestBuilder<S>,
+        expiration: TimePointType
+    ): SigningRequestBuilder<S> {
+        this.transactionFields.expiration = expiration
+        return this
+    }
+
+    /** Add a transaction extension, the request will contain a full transaction. */
+    extension<S extends 'empty' | 'actions'>(
+        this: SigningRequestBuilder<S>,
+        type: UInt16Type,
+        data: BytesType
+    ): SigningRequestBuilder<S> {
+        const extensions = this.transactionFields.transaction_extensions || []
+        this.transactionFields.transaction_extensions = [...extensions, {type, data}]
+        return this
+    }
+
+    /** Set the chain the request is for, defaults to EOS. */
+    chain(chainId: ChainIdType): this {
+        this.chainId = chainId
+        this.chainIds = undefined
+        return this
+    }
+
+    /** Make this a multi-chain request, optionally constrained to a list of chains. */
+    multiChain(chainIds?: ChainIdType[]): this {
+        this.chainId = null
+        this.chainIds = chainIds
+        return this
+    }
+
+    /** Set the callback, background callbacks are delivered with a POST request. */
+    callback(url: string, background = false): this {
+        this.callbackValue = {url, background}
+        return this
+    }
+
+    /** Whether the wallet should broadcast the transaction, defaults to true unless identity. */
+    broadcast(enabled = true): this {
+        this.broadcastValue = enabled
+        return this
+    }
+
+    /** Set or clear a request flag, custom flags need a `flagRegistry` in the create options. */
+    flag(flag: string | number, enabled = true): this {
+        this.flagValues.push([flag, enabled])
+        return this
+    }
+
+    /** Set a metadata key, strings without a type are encoded as raw utf8. */
+    info(key: string, value: ABISerializable, type?: ABISerializableType): this {
+        if (typeof value === 'string' && !type) {
+            this.infoValues[key] = Bytes.from(value, 'utf8')
+        } else if (isInstanceOf(value, Bytes) && !type) {
+            this.infoValues[key] = value
+        } else {
+            this.infoValues[key] = Serializer.encode({object: value, type})
+        }
+        return this
+    }
+
+    /** Set a request signature created elsewhere, use `options.signatureProvider` to sign. */
+    signature(signer: NameType, signature: SignatureType): this {
+        this.signatureValue = RequestSignature.from({signer, signature})
+        return this
+    }
+
+    /** Create the request, fetching ABIs for actions with un-encoded data. */
+    async create(
+        this: SigningRequestBuilder<'actions' | 'identity'>,
+        options: SigningRequestEncodingOptions = {}
+    ): Promise<SigningRequest> {
+        if (this.identityArgs) {
+            return this.createSync(options)
+        }
+        const request = await SigningRequest.create(this.getArguments(), {
+            ...options,
+            signatureProvider: undefined,
+        })
+        return this.finalize(request, options)
+    }
+
+    /**
+     * Create the request synchronously.
+     * @param abis ABIs for actions with un-encoded data.
+     */
+    createSync(
+        this: SigningRequestBuilder<'actions' | 'identity'>,
+        options: SigningRequestEncodingOptions = {},
+        abis: Record<string, ABIDef> = {}
+    ): SigningRequest {
+        const createOptions = {...options, signatureProvider: undefined}
+        let request: SigningRequest
+        if (this.identityArgs) {
+            request = SigningRequest.identity(
+                {
+                    chainId: this.chainId,
+                    chainIds: this.chainIds,
+                    info: this.infoValues,
+                    callback: this.callbackValue!,
+                    ...this.identityArgs,
+                },
+                createOptions
+            )
+            if (this.broadcastValue !== undefined) {
+                request.setBroadcast(this.broadcastValue)
+            }
+        } else {
+            request = SigningRequest.createSync(this.getArguments(), createOptions, abis)
+        }
+        return this.finalize(request, options)
+    }
+
+    /** Return the arguments to create an action or transaction request with. */
+    private getArguments(): SigningRequestCreateArguments {
+        if (this.actionList.length === 0 && this.contextFreeActionList.length === 0) {
+            throw new InvalidArgumentsError('Request has no actions')
+        }
+        const args: SigningRequestCreateArguments = {
+            chainId: this.chainId,
+            chainIds: this.chainIds,
+            callback: this.callbackValue,
+            broadcast: this.broadcastValue,
+            info: this.infoValues,
+        }
+        const isTransaction =
+            this.contextFreeActionList.length > 0 || Object.keys(this.transactionFields).length > 0
+        if (isTransaction) {
+            args.transaction = {
+                ...this.transactionFields,
+                context_free_actions: this.contextFreeActionList,
+                actions: this.actionList,
+            }
+        } else if (this.actionList.length === 1) {
+            args.action = this.actionList[0]
+        } else {
+            args.actions = this.actionList
+        }
+        return args
+    }
+
+    private finalize(request: SigningRequest, options: SigningRequestEncodingOptions) {
+        for (const [flag, enabled] of this.flagValues) {
+            request.data.flags.setFlag(flag, enabled, options.flagRegistry)
+        }
+        // flags are set after the request is created, bypassing the check of the constructor
+        if (request.isIdentity() && request.data.flags.broadcast) {
+            throw new InvalidArgumentsError(
+                'Invalid request (identity request cannot be broadcast)'
+            )
+        }
+        if (options.signatureProvider) {
+            request.sign(options.signatureProvider)
+        } else if (this.signatureValue) {
+            request.signature = this.signatureValue
+        }
+        return request
+    }
+}
@@ -0,0 +1,132 @@
+/** Field level comparison of signing requests. */
+
+import {RequestObject, RequestObjectAction, RequestObjectChain} from './request-object'
+import {AbiMap, SigningRequest} from './signing-request'
+
+export interface RequestDiffOptions {
+    /** ABI definitions used to compare decoded action data, actions without ABI are compared as hex. */
+    abis?: AbiMap
+    /** Whether to ignore the request signatures. */
+    ignoreSignature?: boolean
+    /** Whether to ignore if one request was compressed and the other not. */
+    ignoreCompression?: boolean
+}
+
+/** A field that differs between two requests. */
+export interface RequestDifference {
+    /**
+     * Path of the field in the request object, see `RequestObject`.
+     * E.g. `chain`, `actions.0.data.quantity`, `flags` or `info.foo`.
+     */
+    path: string
+    /** The value in the request, undefined if not present. */
+    value: unknown
+    /** The value in the other request, undefined if not present. */
+    other: unknown
+}
+
+/**
+ * Compare the decoded structure of two requests.
+ * Chains are compared by id, aliases and full chain ids for the same chain are equal.
+ * Compression is only compared if known for both requests, i.e. both were decoded.
+ */
+export function diffRequests(
+    request: SigningRequest,
+    other: SigningRequest,
+    options: RequestDiffOptions = {}
+): RequestDifference[] {
+    const differences: RequestDifference[] = []
+    const a = request.toObject(options.abis)
+    const b = other.toObject(options.abis)
+    if (
+        !options.ignoreCompression &&
+        request.compressed !== undefined &&
+        other.compressed !== undefined &&
+        request.compressed !== other.compressed
+    ) {
+        differences.push({path: 'compressed', value: request.compressed, other: other.compressed})
+    }
+    compare('version', a.version, b.version, differences)
+    if (chainKey(a.chain) !== chainKey(b.chain)) {
+        differences.push({path: 'chain', value: a.chain, other: b.chain})
+    }
+    compare('type', a.type, b.type, differences)
+    compare('header', a.header, b.header, differences)
+    compareActions(
+        'context_free_actions',
+        a.context_free_actions,
+        b.context_free_actions,
+        differences
+    )
+    compareActions('actions', a.actions, b.actions, differences)
+    compare('identity', a.identity, b.identity, differences)
+    compare('flags', a.flags.value, b.flags.value, differences)
+    compare('callback', a.callback, b.callback, differences)
+    compare('info', info(a), info(b), differences)
+    if (!options.ignoreSignature) {
+        compare('signature', a.signature, b.signature, differences)
+    }
+    return differences
+}
+
+function compare(path: string, value: any, other: any, differences: RequestDifference[]) {
+    if (isObject(value) && isObject(other) && Array.isArray(value) === Array.isArray(other)) {
+        const keys = Array.isArray(value)
+            ? Array.from({length: Math.max(value.length, other.length)}, (_, i) => String(i))
+            : [...new Set([...Object.keys(value), ...Object.keys(other)])]
+        for (const key of keys) {
+            compare(`${path}.${key}`, value[key], other[key], differences)
+        }
+    } else if (value !== other) {
+        differences.push({path, value, other})
+    }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null
+}
+
+function chainKey(chain: RequestObjectChain) {
+    return chain.id !== undefined ? chain.id : `alias:${chain.alias}`
+}
+
+/** Compare actions, the hex data is only compared if the decoded data is equal. */
+function compareActions(
+    path: string,
+    value: RequestObjectAction[] = [],
+    other: RequestObjectAction[] = [],
+    differences: RequestDifference[]
+) {
+    for (let i = 0; i < Math.max(value.length, other.length); i++) {
+        const a = value[i]
+        const b = other[i]
+        if (!a || !b) {
+            differences.push({path: `${path}.${i}`, value: a, other: b})
+            continue
+        }
+        const {hex_data: aHex, ...aAction} = a
+        const {hex_data: bHex, ...bAction} = b
+        const count = differences.length
+        compare(`${path}.${i}`, aAction, bAction, differences)
+        if (differences.length === count && (aHex !== undefined || bHex !== undefined)) {
+            compare(`${path}.${i}.hex_data`, aHex, bHex, differences)
+        }
+    }
+}
+
+/**
+ * Info values by key, the order of the keys is not significant.
+ * Keys are normally unique, the values of duplicate keys are compared as a list.
+ */
+function info(object: RequestObject) {
+    const values: Record<string, unknown[]> = {}
+    for (const entry of object.info) {
+        const value = entry.type === 'chain_ids' ? entry.value.map(chainKey) : entry.value
+        values[entry.key] = [...(values[entry.key] || []), value]
+    }
+    const rv: Record<string, unknown> = {}
+    for (const [key, list] of Object.entries(values)) {
+        rv[key] = list.length === 1 ? list[0] : list
+    }
+    return rv
+}
@@ -0,0 +1,341 @@
+/** Plain JSON representation of signing requests, for logs and API responses. */
+
+import {
+    ABI,
+    ABIDef,
+    Action,
+    Bytes,
+    Name,
+    PermissionLevel,
+    Serializer,
+    Transaction,
+} from '@wharfkit/antelope'
+
+import {
+    IdentityV2,
+    IdentityV3,
+    RequestDataV2,
+    RequestDataV3,
+    RequestFlags,
+    RequestSignature,
+} from './abi'
+import {ChainAlias, ChainId, ChainIdVariant} from './chain-id'
+import {InvalidArgumentsError, UnsupportedVersionError} from './errors'
+import {AbiMap, SigningRequest} from './signing-request'
+
+/**
+ * Chain of a request, `alias` is set if the chain is encoded as an alias.
+ * Multi-chain requests use alias 0 and have no id.
+ */
+export interface RequestObjectChain {
+    alias?: number
+    /** The chain id as hex, omitted for unknown aliases. */
+    id?: string
+    /** Registered name of the chain, for display only. */
+    name?: string
+}
+
+export interface RequestObjectAction {
+    account: string
+    name: string
+    authorization: {actor: string; permission: string}[]
+    /** The decoded action data, or the action data as hex if it could not be decoded. */
+    data: Record<string, any> | string
+    /** The action data as hex, only set if `data` is decoded. */
+    hex_data?: string
+}
+
+export interface RequestObjectTransactionHeader {
+    expiration: string
+    ref_block_num: number
+    ref_block_prefix: number
+    max_net_usage_words: number
+    max_cpu_usage_ms: number
+    delay_sec: number
+    transaction_extensions: {type: number; data: string}[]
+}
+
+export interface RequestObjectIdentity {
+    /** Scope of the identity request, version 3 only. */
+    scope?: string
+    /** The requested permission, null if any permission is requested. */
+    permission: {actor: string; permission: string} | null
+}
+
+/**
+ * A metadata entry, the type describes how the value is represented:
+ * - `string` utf8 text.
+ * - `chain_ids` list of chains, see `RequestObjectChain`.
+ * - `bytes` hex encoded data.
+ */
+export type RequestObjectInfo =
+    | {key: string; type: 'string'; value: string}
+    | {key: string; type: 'chain_ids'; value: RequestObjectChain[]}
+    | {key: string; type: 'bytes'; value: string}
+
+/**
+ * JSON representation of a signing request, see `SigningRequest.toObject`.
+ * Round-trips to the same request data with `SigningRequest.fromObject`.
+ */
+export interface RequestObject {
+    version: number
+    chain: RequestObjectChain
+    type: 'action' | 'action[]' | 'transaction' | 'identity'
+    /** Transaction header, only set for transaction requests. */
+    header?: RequestObjectTransactionHeader
+    /** Context free actions, only set for transaction requests. */
+    context_free_actions?: RequestObjectAction[]
+    /** The actions, empty for identity requests. */
+    actions: RequestObjectAction[]
+    /** Only set for identity requests. */
+    identity?: RequestObjectIdentity
+    flags: {
+        /** The raw flag value, including unregistered bits. */
+        value: number
+        /** Names of the registered flags that are set. */
+        names: string[]
+    }
+    callback: string
+    info: RequestObjectInfo[]
+    signature: {signer: string; signature: string} | null
+}
+
+/** Return the JSON representation of a request, actions are decoded using the given ABIs. */
+export function requestToObject(request: SigningRequest, abis: AbiMap = new Map()): RequestObject {
+    const {version, data, signature} = request
+    const req = data.req
+    const object: RequestObject = {
+        version,
+        chain: chainToObject(data.chain_id),
+        type: req.variantName as RequestObject['type'],
+        actions: [],
+        flags: {value: Number(data.flags), names: data.flags.names(request.flagRegistry)},
+        callback: data.callback,
+        info: data.info.map(({key, value}) => infoToObject(key, value)),
+        signature: signature
+            ? {signer: String(signature.signer), signature: String(signature.signature)}
+            : null,
+    }
+    const action = (value: Action) => actionToObject(value, abis)
+    switch (req.variantName) {
+        case 'action':
+            object.actions = [action(req.value as Action)]
+            break
+        case 'action[]':
+            object.actions = (req.value as Action[]).map(action)
+            break
+        case 'transaction': {
+            const tx = req.value as Transaction
+            object.header = {
+                expiration: String(tx.expiration),
+                ref_block_num: Number(tx.ref_block_num),
+                ref_block_prefix: Number(tx.ref_block_prefix),
+                max_net_usage_words: Number(tx.max_net_usage_words),
+                max_cpu_usage_ms: Number(tx.max_cpu_usage_ms),
+                delay_sec: Number(tx.delay_sec),
+                transaction_extensions: tx.transaction_extensions.map((ext) => ({
+                    type: Number(ext.type),
+                    data: ext.data.hexString,
+                })),
+            }
+            object.context_free_actions = tx.context_free_actions.map(action)
+            object.actions = tx.actions.map(action)
+            break
+        }
+        case 'identity': {
+            const id = req.value as IdentityV3
+            object.identity = {
+                permission: id.permission ? permissionToObject(id.permission) : null,
+            }
+            if (version > 2) {
+                object.identity.scope = String(id.scope)
+            }
+            break
+        }
+    }
+    return object
+}
+
+/**
+ * Return the version, request data and signature for a JSON representation.
+ * @param abis ABIs for actions with decoded data and no `hex_data`.
+ * @param compatibleVersions Versions newer than 3 that use the version 3 layout,
+ *                           see `SigningRequestEncodingOptions.compatibleVersions`.
+ * @throws {UnsupportedVersionError} If the protocol version is not supported.
+ * @throws {InvalidArgumentsError} If the object is malformed.
+ */
+export function requestFromObject(
+    object: RequestObject,
+    abis: AbiMap = new Map(),
+    compatibleVersions: number[] = []
+) {
+    const compatible = object.version > 3 && compatibleVersions.includes(object.version)
+    if (object.version !== 2 && object.version !== 3 && !compatible) {
+        throw new UnsupportedVersionError(object.version)
+    }
+    const action = (value: RequestObjectAction) => actionFromObject(value, abis)
+    let req: [string, unknown]
+    switch (object.type) {
+        case 'action':
+            if (object.actions.length !== 1) {
+                throw new InvalidArgumentsError('Action requests must have exactly one action')
+            }
+            req = ['action', action(object.actions[0])]
+            break
+        case 'action[]':
+            req = ['action[]', object.actions.map(action)]
+            break
+        case 'transaction':
+            if (!object.header) {
+                throw new InvalidArgumentsError('Transaction requests must have a header')
+            }
+            req = [
+                'transaction',
+                Transaction.from({
+                    ...object.header,
+                    context_free_actions: (object.context_free_actions || []).map(action),
+                    actions: object.actions.map(action),
+                }),
+            ]
+            break
+        case 'identity': {
+            if (!object.identity) {
+                throw new InvalidArgumentsError('Identity requests must have an identity')
+            }
+            const {scope, permission} = object.identity
+            req =
+                object.version === 2
+                    ? ['identity', IdentityV2.from({permission: permission || undefined})]
+                    : ['identity', IdentityV3.from({scope, permission: permission || undefined})]
+            break
+        }
+        default:
+            throw new InvalidArgumentsError(`Unknown request type ${object.type}`)
+    }
+    const fields = {
+        chain_id: chainFromObject(object.chain),
+        req,
+        flags: RequestFlags.from(object.flags.value),
+        callback: object.callback,
+        info: object.info.map((entry) => ({key: entry.key, value: infoFromObject(entry)})),
+    }
+    const data = object.version === 2 ? RequestDataV2.from(fields) : RequestDataV3.from(fields)
+    const signature = object.signature ? RequestSignature.from(object.signature) : undefined
+    return {version: object.version, data, signature}
+}
+
+function chainToObject(variant: ChainIdVariant): RequestObjectChain {
+    const info = variant.chainInfo
+    const object: RequestObjectChain = {}
+    if (variant.variantName === 'chain_alias') {
+        object.alias = Number((variant.value as ChainAlias).value)
+        if (info) {
+            object.id = info.id.hexString
+        }
+    } else {
+        object.id = (variant.value as ChainId).hexString
+    }
+    if (info) {
+        object.name = info.name
+    }
+    return object
+}
+
+function chainFromObject(object: RequestObjectChain): ChainIdVariant {
+    if (object.alias !== undefined) {
+        return ChainIdVariant.from(['chain_alias', object.alias])
+    }
+    if (object.id === undefined) {
+        throw new InvalidArgumentsError('Chain must have an alias or id')
+    }
+    return ChainIdVariant.from(['chain_id', object.id])
+}
+
+function permissionToObject(permission: PermissionLevel) {
+    return {actor: String(permission.actor), permission: String(permission.permission)}
+}
+
+function actionToObject(action: Action, abis: AbiMap): RequestObjectAction {
+    const object: RequestObjectAction = {
+        account: String(action.account),
+        name: String(action.name),
+        authorization: action.authorization.map(permissionToObject),
+        data: action.data.hexString,
+    }
+    const abi = abis.get(String(action.account))
+    if (abi) {
+        try {
+            object.data = JSON.parse(JSON.stringify(action.decodeData(ABI.from(abi))))
+            object.hex_data = action.data.hexString
+        } catch {
+            // keep the hex data if the action can not be decoded
+        }
+    }
+    return object
+}
+
+function actionFromObject(object: RequestObjectAction, abis: AbiMap): Action {
+    const action = {
+        account: object.account,
+        name: object.name,
+        authorization: object.authorization,
+    }
+    if (object.hex_data !== undefined) {
+        return Action.from({...action, data: object.hex_data})
+    }
+    if (typeof object.data === 'string') {
+        return Action.from({...action, data: object.data})
+    }
+    const abi: ABIDef | undefined = abis.get(String(Name.from(object.account)))
+    if (!abi) {
+        throw new InvalidArgumentsError(
+            `Action ${object.account}::${object.name} has decoded data and no ABI`
+        )
+    }
+    const encoded = Action.from({...action, data: object.data}, abi)
+    return Action.from({...action, data: encoded.data})
+}
+
+function infoToObject(key: string, value: Bytes): RequestObjectInfo {
+    if (key === 'chain_ids') {
+        try {
+            const ids = Serializer.decode({
+                data: value,
+                type: {type: ChainIdVariant, array: true},
+            }) as ChainIdVariant[]
+            const object = ids.map(chainToObject)
+            if (infoFromObject({key, type: 'chain_ids', value: object}).equals(value)) {
+                return {key, type: 'chain_ids', value: object}
+            }
+        } catch {
+            // fall through to other representations
+        }
+    }
+    const text = value.utf8String
+    // text with control characters is most likely encoded data, e.g. an integer
+    // eslint-disable-next-line no-control-regex
+    const binary = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/.test(text)
+    if (!binary && Bytes.from(text, 'utf8').equals(value)) {
+        return {key, type: 'string', value: text}
+    }
+    return {key, type: 'bytes', value: value.hexString}
+}
+
+function infoFromObject(entry: RequestObjectInfo): Bytes {
+    switch (entry.type) {
+        case 'string':
+            return Bytes.from(entry.value, 'utf8')
+        case 'chain_ids':
+            return Serializer.encode({
+                object: entry.value.map(chainFromObject),
+                type: {type: ChainIdVariant, array: true},
+            })
+        case 'bytes':
+            return Bytes.from(entry.value)
+        default: {
+            // fails to compile if an info type is not handled
+            const unknown: never = entry
+            throw new InvalidArgumentsError(`Unknown info type in ${JSON.stringify(unknown)}`)
+        }
+    }
+}
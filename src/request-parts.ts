@@ -0,0 +1,189 @@
+/**
+ * Multi-part encoding of signing requests, for transports with limited
+ * capacity like animated QR codes.
+ *
+ * Each part is encoded as `esr-part:<base64u>` where the binary part is:
+ *
+ *   index      uint8     0-based part index
+ *   total      uint8     total number of parts
+ *   set_id     4 bytes   first 4 bytes of sha256(request data), shared by all parts
+ *   checksum   4 bytes   first 4 bytes of sha256(index + total + set_id + chunk)
+ *   chunk      bytes     slice of the encoded request data
+ *
+ * The request data is the same as encoded in a `esr:` uri, i.e. header,
+ * request and optional signature, compressed unless disabled.
+ */
+
+import {Bytes, Checksum256} from '@wharfkit/antelope'
+
+import * as base64u from './base64u'
+import {InvalidRequestPartError} from './errors'
+import {SigningRequest, SigningRequestEncodingOptions} from './signing-request'
+
+/** Scheme used for request parts. */
+export const RequestPartScheme = 'esr-part:'
+
+const headerLength = 10
+
+export interface RequestPartsOptions {
+    /** Maximum length of each part uri, defaults to 300 characters. */
+    maxLength?: number
+    /** Whether to compress the request, defaults to true. */
+    compress?: boolean
+}
+
+export interface RequestPartsProgress {
+    /** Number of distinct parts received. */
+    received: number
+    /** Total number of parts, 0 until the first part is received. */
+    total: number
+    /** Whether all parts have been received. */
+    complete: boolean
+}
+
+/**
+ * Split a request into multiple numbered and checksummed part uris.
+ * Requests that fit in a single part are still encoded as a part.
+ */
+export function encodeRequestParts(
+    request: SigningRequest,
+    options: RequestPartsOptions = {}
+): string[] {
+    const maxLength = options.maxLength || 300
+    const data = request.getEncodedData(options.compress)
+    // 4 base64u chars per 3 bytes, minus the header
+    const chunkSize = Math.floor(((maxLength - RequestPartScheme.length) * 3) / 4) - headerLength
+    if (chunkSize < 1) {
+        throw new RangeError('Part length too small')
+    }
+    const total = Math.ceil(data.byteLength / chunkSize)
+    if (total > 255) {
+        throw new RangeError('Request too large, increase the part length')
+    }
+    const setId = Checksum256.hash(data).array.subarray(0, 4)
+    const parts: string[] = []
+    for (let index = 0; index < total; index++) {
+        const chunk = data.subarray(index * chunkSize, (index + 1) * chunkSize)
+        const prefix = new Uint8Array([index, total, ...setId])
+        const checksum = partChecksum(prefix, chunk)
+        const part = new Uint8Array(headerLength + chunk.byteLength)
+        part.set(prefix, 0)
+        part.set(checksum, prefix.byteLength)
+        part.set(chunk, headerLength)
+        parts.push(RequestPartScheme + base64u.encode(part))
+    }
+    return parts
+}
+
+/**
+ * Reassembles request parts received in any order.
+ *
+ * ```
+ * const assembler = new RequestPartsAssembler()
+ * onScan((uri) => {
+ *     const {received, total, complete} = assembler.add(uri)
+ *     if (complete) {
+ *         const request = assembler.getRequest()
+ *     }
+ * })
+ * ```
+ */
+export class RequestPartsAssembler {
+    private setId?: Uint8Array
+    private chunks: (Uint8Array | undefined)[] = []
+
+    /**
+     * Add a part, parts already received are ignored.
+     * @throws {InvalidRequestPartError} If the part is malformed or belongs to a different request.
+     */
+    add(uri: string): RequestPartsProgress {
+        const part = decodePart(uri)
+        if (this.setId) {
+            if (!Bytes.from(this.setId).equals(part.setId)) {
+                throw new InvalidRequestPartError('Part belongs to a different request', part.index)
+            }
+            if (part.total !== this.chunks.length) {
+                throw new InvalidRequestPartError('Part count mismatch', part.index)
+            }
+        } else {
+            this.setId = part.setId
+            this.chunks = new Array(part.total).fill(undefined)
+        }
+        if (!this.chunks[part.index]) {
+            this.chunks[part.index] = part.chunk
+        }
+        return this.progress
+    }
+
+    /** Current progress. */
+    get progress(): RequestPartsProgress {
+        const received = this.chunks.filter((chunk) => chunk !== undefined).length
+        const total = this.chunks.length
+        return {received, total, complete: total > 0 && received === total}
+    }
+
+    /** Indices of parts not yet received. */
+    get missing(): number[] {
+        return this.chunks.map((chunk, index) => (chunk ? -1 : index)).filter((i) => i !== -1)
+    }
+
+    /** Discard all received parts. */
+    reset() {
+        this.setId = undefined
+        this.chunks = []
+    }
+
+    /**
+     * The reassembled request data, can be passed to `SigningRequest.fromData`.
+     * @throws {InvalidRequestPartError} If not all parts have been received or the data is corrupt.
+     */
+    getData(): Uint8Array {
+        if (!this.progress.complete) {
+            throw new InvalidRequestPartError(
+                `Missing parts ${this.missing.map((i) => i + 1).join(', ')}`
+            )
+        }
+        const length = this.chunks.reduce((sum, chunk) => sum + chunk!.byteLength, 0)
+        const data = new Uint8Array(length)
+        let offset = 0
+        for (const chunk of this.chunks) {
+            data.set(chunk!, offset)
+            offset += chunk!.byteLength
+        }
+        const setId = Checksum256.hash(data).array.subarray(0, 4)
+        if (!Bytes.from(setId).equals(this.setId!)) {
+            throw new InvalidRequestPartError('Reassembled request checksum mismatch')
+        }
+        return data
+    }
+
+    /** Decode the reassembled request. */
+    getRequest(options: SigningRequestEncodingOptions = {}): SigningRequest {
+        return SigningRequest.fromData(this.getData(), options)
+    }
+}
+
+function decodePart(uri: string) {
+    if (typeof uri !== 'string' || !uri.startsWith(RequestPartScheme)) {
+        throw new InvalidRequestPartError('Not a request part')
+    }
+    const data = base64u.decode(uri.slice(RequestPartScheme.length).replace(/^\/\//, ''))
+    if (data.byteLength <= headerLength) {
+        throw new InvalidRequestPartError('Request part too short')
+    }
+    const index = data[0]
+    const total = data[1]
+    const chunk = data.slice(headerLength)
+    const checksum = partChecksum(data.subarray(0, 6), chunk)
+    if (!Bytes.from(checksum).equals(data.subarray(6, headerLength))) {
+        throw new InvalidRequestPartError('Request part checksum mismatch', index)
+    }
+    if (total === 0 || index >= total) {
+        throw new InvalidRequestPartError('Invalid request part index', index)
+    }
+    return {index, total, setId: data.slice(2, 6), chunk}
+}
+
+function partChecksum(prefix: Uint8Array, chunk: Uint8Array) {
+    return Checksum256.hash(Bytes.from(prefix).appending(chunk)).array.subarray(0, 4)
+}
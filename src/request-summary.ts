@@ -0,0 +1,276 @@
+/** Human readable summaries of signing requests, for confirmation screens. */
+
+import {
+    Asset,
+    Bytes,
+    ExtendedAsset,
+    isInstanceOf,
+    Name,
+    PermissionLevel,
+    PermissionLevelType,
+    Struct,
+} from '@wharfkit/antelope'
+
+import {ChainId} from './chain-id'
+import {
+    AbiMap,
+    PlaceholderName,
+    PlaceholderPermission,
+    ResolvedAction,
+    SigningRequest,
+} from './signing-request'
+
+/**
+ * Title templates for well known actions, keyed by `contract::action`.
+ * Field values are substituted for `{{field}}`, add entries to customize titles.
+ */
+export const ActionSummaryTemplates: Record<string, string> = {
+    'eosio.token::transfer': 'Transfer {{quantity}} from {{from}} to {{to}}',
+    'eosio::buyrambytes': 'Buy {{bytes}} bytes of RAM for {{receiver}}',
+    'eosio::buyram': 'Buy {{quant}} worth of RAM for {{receiver}}',
+    'eosio::delegatebw':
+        'Stake {{stake_cpu_quantity}} for CPU and {{stake_net_quantity}} for NET to {{receiver}}',
+    'eosio::undelegatebw':
+        'Unstake {{unstake_cpu_quantity}} from CPU and {{unstake_net_quantity}} from NET',
+    'eosio::voteproducer': 'Vote for {{producers}}',
+}
+
+/** A single display line in an action summary. */
+export interface SummaryField {
+    /** Path of the field in the action data, nested fields are separated by a dot. */
+    key: string
+    /** Display label, e.g. `Max supply` for `max_supply`. */
+    label: string
+    /** Formatted value. */
+    value: string
+    /** Set if the value is a placeholder that will be replaced by the signer. */
+    placeholder?: 'account' | 'permission'
+}
+
+export interface ActionSummary {
+    /** The contract account. */
+    contract: string
+    /** The action name. */
+    action: string
+    /** One line description of the action, e.g. `Transfer 1.0000 EOS from your account to bob`. */
+    title: string
+    /** Formatted authorizations, e.g. `your account@active`. */
+    authorization: string[]
+    /** The formatted action data. */
+    fields: SummaryField[]
+}
+
+export interface ChainSummary {
+    /** The chain id. */
+    id: string
+    /** Registered display name of the chain, the chain id if unknown. */
+    name: string
+    /** Whether the chain is a registered test network. */
+    testnet: boolean
+}
+
+export interface RequestSummary {
+    /** Whether this is an identity or a transaction request. */
+    type: 'identity' | 'transaction'
+    /** Chains the request is valid for, empty if valid for any chain. */
+    chains: ChainSummary[]
+    /** Whether the transaction will be broadcast by the signer. */
+    broadcast: boolean
+    /** Where the result will be sent, if anywhere. */
+    callback: {url: string; host: string; background: boolean} | null
+    /** Requested identity, only set for identity requests. */
+    identity: {scope: string | null; account: string | null; permission: string | null} | null
+    /** Summaries of the actions, empty for identity requests. */
+    actions: ActionSummary[]
+    /** Summaries of the context free actions. */
+    contextFreeActions: ActionSummary[]
+}
+
+export interface SummaryOptions {
+    /** Signer to show in place of placeholders. */
+    signer?: PermissionLevelType
+    /** Chain id to describe instead of the chains the request is valid for. */
+    chainId?: ChainId
+    /** Text shown for the account placeholder when no signer is set, defaults to `your account`. */
+    accountPlaceholder?: string
+    /** Text shown for the permission placeholder when no signer is set, defaults to `your permission`. */
+    permissionPlaceholder?: string
+}
+
+/** Create a summary of a request, the ABIs required by the request must be present. */
+export function summarizeRequest(
+    request: SigningRequest,
+    abis: AbiMap,
+    options: SummaryOptions = {}
+): RequestSummary {
+    const formatter = new SummaryFormatter(options)
+    const isIdentity = request.isIdentity()
+    let chains: ChainSummary[]
+    if (options.chainId) {
+        chains = [summarizeChain(options.chainId)]
+    } else if (request.isMultiChain()) {
+        chains = (request.getChainIds() || []).map(summarizeChain)
+    } else {
+        chains = [summarizeChain(request.getChainId())]
+    }
+    let identity: RequestSummary['identity'] = null
+    if (isIdentity) {
+        const scope = request.getIdentityScope()
+        const account = request.getIdentity()
+        const permission = request.getIdentityPermission()
+        identity = {
+            scope: scope ? String(scope) : null,
+            account: account ? String(account) : null,
+            permission: permission ? String(permission) : null,
+        }
+    }
+    const {callback, flags} = request.data
+    return {
+        type: isIdentity ? 'identity' : 'transaction',
+        chains,
+        broadcast: request.shouldBroadcast(),
+        callback: callback
+            ? {url: callback, host: callbackHost(callback), background: flags.background}
+            : null,
+        identity,
+        actions: isIdentity
+            ? []
+            : request.resolveActions(abis).map((action) => formatter.action(action)),
+        contextFreeActions: request
+            .resolveContextFreeActions(abis)
+            .map((action) => formatter.action(action)),
+    }
+}
+
+class SummaryFormatter {
+    private signer?: PermissionLevel
+    private accountPlaceholder: string
+    private permissionPlaceholder: string
+
+    constructor(options: SummaryOptions) {
+        this.signer = options.signer ? PermissionLevel.from(options.signer) : undefined
+        this.accountPlaceholder = options.accountPlaceholder || 'your account'
+        this.permissionPlaceholder = options.permissionPlaceholder || 'your permission'
+    }
+
+    action(action: ResolvedAction): ActionSummary {
+        const contract = String(action.account)
+        const name = String(action.name)
+        const fields: SummaryField[] = []
+        for (const key of Object.keys(action.data)) {
+            this.field(fields, key, humanize(key), action.data[key])
+        }
+        const template = ActionSummaryTemplates[`${contract}::${name}`]
+        let title: string
+        if (template) {
+            title = template.replace(/{{([\w.]+)}}/g, (match, key) => {
+                const field = fields.find((f) => f.key === key)
+                return field ? field.value : match
+            })
+        } else {
+            title = `${humanize(name)} on ${contract}`
+        }
+        return {
+            contract,
+            action: name,
+            title,
+            authorization: action.authorization.map((auth) => this.permissionLevel(auth)),
+            fields,
+        }
+    }
+
+    private field(fields: SummaryField[], key: string, label: string, value: any) {
+        if (
+            (typeof value === 'object' && value !== null && value.constructor === Object) ||
+            isInstanceOf(value, Struct)
+        ) {
+            const keys = isInstanceOf(value, Struct)
+                ? (value.constructor as typeof Struct).structFields.map((f) => f.name)
+                : Object.keys(value)
+            for (const subkey of keys) {
+                const sublabel = `${label} ${humanize(subkey).toLowerCase()}`
+                this.field(fields, `${key}.${subkey}`, sublabel, value[subkey])
+            }
+            return
+        }
+        const field: SummaryField = {key, label, value: this.value(value)}
+        if (isInstanceOf(value, Name)) {
+            if (value.equals(PlaceholderName)) {
+                field.placeholder = 'account'
+            } else if (value.equals(PlaceholderPermission)) {
+                field.placeholder = 'permission'
+            }
+        }
+        fields.push(field)
+    }
+
+    private value(value: any): string {
+        if (isInstanceOf(value, Name)) {
+            return this.name(value)
+        }
+        if (isInstanceOf(value, PermissionLevel)) {
+            return this.permissionLevel(value)
+        }
+        if (isInstanceOf(value, Asset)) {
+            return String(value)
+        }
+        if (isInstanceOf(value, ExtendedAsset)) {
+            return `${value.quantity}@${value.contract}`
+        }
+        if (isInstanceOf(value, Bytes)) {
+            return value.hexString
+        }
+        if (Array.isArray(value)) {
+            return value.map((v) => this.value(v)).join(', ')
+        }
+        if (value === undefined || value === null) {
+            return ''
+        }
+        if (typeof value === 'object' && value.constructor === Object) {
+            return JSON.stringify(value)
+        }
+        return String(value)
+    }
+
+    private name(name: Name): string {
+        if (name.equals(PlaceholderName)) {
+            return this.signer ? String(this.signer.actor) : this.accountPlaceholder
+        }
+        if (name.equals(PlaceholderPermission)) {
+            return this.signer ? String(this.signer.permission) : this.permissionPlaceholder
+        }
+        return String(name)
+    }
+
+    private permissionLevel(auth: PermissionLevel): string {
+        let permission = this.name(auth.permission)
+        // actor placeholder also resolves to the signer permission when used in auth
+        if (auth.permission.equals(PlaceholderName)) {
+            permission = this.signer ? String(this.signer.permission) : this.permissionPlaceholder
+        }
+        return `${this.name(auth.actor)}@${permission}`
+    }
+}
+
+function summarizeChain(id: ChainId): ChainSummary {
+    const info = id.chainInfo
+    return {
+        id: String(id),
+        name: info ? info.displayName : String(id),
+        testnet: info ? info.testnet : false,
+    }
+}
+
+function callbackHost(url: string) {
+    const match = url.match(/^[a-z][\w+.-]*:\/\/(?:[^@/?#]*@)?([^/?#:]+)/i)
+    if (match) {
+        return match[1].toLowerCase()
+    }
+    // non-hierarchical schemes, e.g. `mailto:` or app deep links without a host
+    return url.split(':')[0].toLowerCase()
+}
+
+function humanize(key: string) {
+    const words = key.replace(/[_.]+/g, ' ').trim()
+    return words.charAt(0).toUpperCase() + words.slice(1)
+}
@@ -0,0 +1,195 @@
+/** Parsing and formatting of request uris and https links. */
+
+import {InvalidRequestError} from './errors'
+
+/** How a request was transported, used to encode it back in the same style. */
+export type RequestTransport =
+    | {
+          type: 'scheme'
+          /** The uri scheme including the colon, e.g. `esr:` or `web+esr:`. */
+          scheme: string
+          /** Whether the scheme is followed by slashes, i.e. `esr://`. */
+          slashes: boolean
+      }
+    | {
+          type: 'link'
+          /** Origin of the link, e.g. `https://eosio.to`. */
+          origin: string
+          /** Path up to the payload, e.g. `/` or `/sign/`. */
+          path: string
+          /** Where in the link the payload is. */
+          location: 'path' | 'query' | 'fragment'
+          /** Name of the query or fragment parameter holding the payload, if any. */
+          param?: string
+      }
+
+export interface RequestUriOptions {
+    /**
+     * Uri schemes accepted when decoding, e.g. `['esr:', 'web+esr:']`.
+     * Defaults to accepting any scheme except http and https.
+     */
+    schemes?: string[]
+    /** Hosts of https links accepted when decoding, defaults to `DefaultRequestLinkHosts`. */
+    linkHosts?: string[]
+}
+
+/** Hosts of https links recognized as signing requests. */
+export const DefaultRequestLinkHosts = ['eosio.to']
+
+/** Query and fragment parameters that may hold the request payload in links. */
+const payloadParams = ['esr', 'req', 'request', 'uri']
+
+const schemePattern = /^([a-z][a-z0-9+.-]*:)(.*)$/i
+const linkPattern = /^\/\/([^/?#]+)([^?#]*)(?:\?([^#]*))?(?:#(.*))?$/
+const payloadPattern = /^[A-Za-z0-9_\-+/]{8,}={0,2}$/
+
+/**
+ * Extract the encoded payload from a request uri or link.
+ * Accepts percent-encoded uris and ignores trailing query strings and fragments.
+ * @throws {InvalidRequestError} If the uri is not a recognized request uri.
+ */
+export function parseRequestUri(
+    uri: string,
+    options: RequestUriOptions = {}
+): {payload: string; transport: RequestTransport} {
+    if (typeof uri !== 'string') {
+        throw new InvalidRequestError('Invalid request uri')
+    }
+    let value = uri.trim()
+    if (/^<.*>$/.test(value)) {
+        // angle brackets added by some chat apps
+        value = value.slice(1, -1)
+    }
+    if (/%[0-9a-f]{2}/i.test(value)) {
+        try {
+            value = decodeURIComponent(value)
+        } catch {
+            throw new InvalidRequestError('Invalid request uri encoding')
+        }
+    }
+    const match = value.match(schemePattern)
+    if (!match) {
+        throw new InvalidRequestError('Invalid request uri')
+    }
+    const scheme = match[1].toLowerCase()
+    const rest = match[2]
+    if (scheme === 'https:' || scheme === 'http:') {
+        return parseLink(scheme, rest, options)
+    }
+    checkScheme(scheme, options)
+    const slashes = rest.startsWith('//')
+    const payload = (slashes ? rest.slice(2) : rest).split(/[?#]/)[0]
+    return {payload: checkPayload(payload), transport: {type: 'scheme', scheme, slashes}}
+}
+
+/** Format an encoded payload using a transport. */
+export function formatRequestUri(payload: string, transport: RequestTransport): string {
+    if (transport.type === 'scheme') {
+        return transport.scheme + (transport.slashes ? '//' : '') + payload
+    }
+    const {origin, path, location, param} = transport
+    switch (location) {
+        case 'query':
+            return `${origin}${path}?${param}=${payload}`
+        case 'fragment':
+            return `${origin}${path}#${param ? param + '=' : ''}${payload}`
+        default:
+            return origin + path + payload
+    }
+}
+
+function parseLink(
+    scheme: string,
+    rest: string,
+    options: RequestUriOptions
+): {payload: string; transport: RequestTransport} {
+    const hosts = options.linkHosts || DefaultRequestLinkHosts
+    const match = rest.match(linkPattern)
+    if (!match) {
+        throw new InvalidRequestError('Invalid request link')
+    }
+    const host = match[1].toLowerCase()
+    const hostname = host.replace(/^.*@/, '').replace(/:\d+$/, '')
+    if (!hosts.some((h) => h.toLowerCase() === hostname)) {
+        throw new InvalidRequestError(`Unsupported request link host ${hostname}`)
+    }
+    const origin = scheme + '//' + host
+    const path = match[2] || '/'
+    const query = parseParams(match[3] || '')
+    const fragment = match[4] || ''
+    for (const param of payloadParams) {
+        const value = query[param]
+        if (value) {
+            return {
+                payload: stripScheme(value, options),
+                transport: {type: 'link', origin, path, location: 'query', param},
+            }
+        }
+    }
+    if (fragment.includes('=')) {
+        const params = parseParams(fragment)
+        for (const param of payloadParams) {
+            const value = params[param]
+            if (value) {
+                return {
+                    payload: stripScheme(value, options),
+                    transport: {type: 'link', origin, path, location: 'fragment', param},
+                }
+            }
+        }
+    } else if (payloadPattern.test(fragment)) {
+        return {payload: fragment, transport: {type: 'link', origin, path, location: 'fragment'}}
+    }
+    const segment = path.slice(path.lastIndexOf('/') + 1)
+    if (payloadPattern.test(segment)) {
+        return {
+            payload: segment,
+            transport: {
+                type: 'link',
+                origin,
+                path: path.slice(0, path.length - segment.length),
+                location: 'path',
+            },
+        }
+    }
+    throw new InvalidRequestError('No request payload in link')
+}
+
+/** Split a query string, values are already percent-decoded and may contain `+`. */
+function parseParams(query: string) {
+    const params: Record<string, string> = {}
+    for (const pair of query.split('&')) {
+        const index = pair.indexOf('=')
+        if (index > 0) {
+            params[pair.slice(0, index)] = pair.slice(index + 1)
+        }
+    }
+    return params
+}
+
+/** Payloads in links may be full uris, e.g. `?uri=esr://...`, their scheme must be accepted. */
+function stripScheme(value: string, options: RequestUriOptions) {
+    const match = value.match(schemePattern)
+    if (match) {
+        const scheme = match[1].toLowerCase()
+        if (scheme === 'https:' || scheme === 'http:') {
+            throw new InvalidRequestError(`Unsupported request uri scheme ${scheme}`)
+        }
+        checkScheme(scheme, options)
+        return checkPayload(match[2].replace(/^\/\//, ''))
+    }
+    return checkPayload(value)
+}
+
+function checkScheme(scheme: string, options: RequestUriOptions) {
+    if (options.schemes && !options.schemes.some((s) => s.toLowerCase() === scheme)) {
+        throw new InvalidRequestError(`Unsupported request uri scheme ${scheme}`)
+    }
+}
+
+function checkPayload(payload: string) {
+    if (!/^[A-Za-z0-9_\-+/]+=*$/.test(payload)) {
+        throw new InvalidRequestError('Invalid request payload')
+    }
+    return payload
+}
@@ -0,0 +1,248 @@
+/** Detection of request contents that signers should be warned about. */
+
+import {ABI, Action} from '@wharfkit/antelope'
+
+import {AbiMap, SigningRequest} from './signing-request'
+
+/** How much attention a warning needs, in increasing order. */
+export type RiskSeverity = 'info' | 'warning' | 'danger'
+
+/** Stable, machine-readable warning codes. */
+export enum RiskCode {
+    /** Changes or removes an account permission. */
+    PERMISSION_CHANGE = 'R_PERMISSION_CHANGE',
+    /** Links or unlinks a permission to an action. */
+    PERMISSION_LINK = 'R_PERMISSION_LINK',
+    /** Proposes, approves or executes a multisig proposal. */
+    MULTISIG = 'R_MULTISIG',
+    /** The transaction is delayed. */
+    DELAYED_TRANSACTION = 'R_DELAYED_TRANSACTION',
+    /** The transaction has extensions. */
+    TRANSACTION_EXTENSIONS = 'R_TRANSACTION_EXTENSIONS',
+    /** The callback is not delivered over https. */
+    INSECURE_CALLBACK = 'R_INSECURE_CALLBACK',
+    /** Action data could not be decoded, so it could not be checked. */
+    UNDECODED_ACTION = 'R_UNDECODED_ACTION',
+}
+
+export interface RiskWarning {
+    code: RiskCode | string
+    severity: RiskSeverity
+    /** Human readable description of the issue. */
+    message: string
+    /** Index of the offending action, if any. */
+    actionIndex?: number
+    /** Whether the offending action is a context free action. */
+    contextFree?: boolean
+}
+
+/** A transaction action as seen by risk rules. */
+export interface RiskActionContext {
+    /** The raw action. */
+    action: Action
+    /** The decoded action data, undefined if the ABI was not available. */
+    data?: Record<string, any>
+    /** Index in the actions or context free actions. */
+    index: number
+    /** Whether this is a context free action. */
+    contextFree: boolean
+}
+
+export interface RiskContext {
+    request: SigningRequest
+    actions: RiskActionContext[]
+}
+
+/** A rule returning the warnings it finds in a request. */
+export type RiskRule = (context: RiskContext) => RiskWarning[]
+
+export interface RiskAnalysisOptions {
+    /** Additional rules to run after the default rules. */
+    rules?: RiskRule[]
+}
+
+const severityOrder: RiskSeverity[] = ['info', 'warning', 'danger']
+
+/** Compare severities, returns a positive number if `a` is more severe than `b`. */
+export function compareRiskSeverity(a: RiskSeverity, b: RiskSeverity) {
+    return severityOrder.indexOf(a) - severityOrder.indexOf(b)
+}
+
+const actionRules: Record<
+    string,
+    {code: RiskCode; severity: RiskSeverity; message: (data?: Record<string, any>) => string}
+> = {
+    'eosio::updateauth': {
+        code: RiskCode.PERMISSION_CHANGE,
+        severity: 'danger',
+        message: (data) =>
+            data
+                ? `Changes the keys and accounts controlling ${data.account}@${data.permission}`
+                : 'Changes the keys and accounts controlling an account',
+    },
+    'eosio::deleteauth': {
+        code: RiskCode.PERMISSION_CHANGE,
+        severity: 'danger',
+        message: (data) =>
+            data
+                ? `Deletes the permission ${data.account}@${data.permission}`
+                : 'Deletes an account permission',
+    },
+    'eosio::linkauth': {
+        code: RiskCode.PERMISSION_LINK,
+        severity: 'warning',
+        message: (data) =>
+            data
+                ? `Allows ${data.account}@${data.requirement} to authorize ${data.code}::${
+                      data.type || '*'
+                  }`
+                : 'Links a permission to an action',
+    },
+    'eosio::unlinkauth': {
+        code: RiskCode.PERMISSION_LINK,
+        severity: 'warning',
+        message: (data) =>
+            data
+                ? `Removes the permission link of ${data.account} for ${data.code}::${
+                      data.type || '*'
+                  }`
+                : 'Removes a permission link',
+    },
+    'eosio.msig::propose': {
+        code: RiskCode.MULTISIG,
+        severity: 'warning',
+        message: (data) =>
+            data
+                ? `Proposes multisig transaction ${data.proposal_name}`
+                : 'Proposes a multisig transaction',
+    },
+    'eosio.msig::approve': {
+        code: RiskCode.MULTISIG,
+        severity: 'danger',
+        message: (data) =>
+            data
+                ? `Approves multisig proposal ${data.proposal_name} by ${data.proposer}`
+                : 'Approves a multisig proposal',
+    },
+    'eosio.msig::exec': {
+        code: RiskCode.MULTISIG,
+        severity: 'warning',
+        message: (data) =>
+            data
+                ? `Executes multisig proposal ${data.proposal_name} by ${data.proposer}`
+                : 'Executes a multisig proposal',
+    },
+}
+
+/** Rules run by `SigningRequest.analyze`. */
+export const DefaultRiskRules: RiskRule[] = [
+    function knownActions({actions}) {
+        const warnings: RiskWarning[] = []
+        for (const {action, data, index, contextFree} of actions) {
+            const rule = actionRules[`${action.account}::${action.name}`]
+            if (rule) {
+                warnings.push({
+                    code: rule.code,
+                    severity: rule.severity,
+                    message: rule.message(data),
+                    actionIndex: index,
+                    contextFree,
+                })
+            }
+        }
+        return warnings
+    },
+    function undecodedActions({actions}) {
+        return actions
+            .filter(({data}) => data === undefined)
+            .map(({action, index, contextFree}) => ({
+                code: RiskCode.UNDECODED_ACTION,
+                severity: 'info',
+                message: `Unable to decode ${action.account}::${action.name}`,
+                actionIndex: index,
+                contextFree,
+            }))
+    },
+    function transactionHeader({request}) {
+        const warnings: RiskWarning[] = []
+        if (request.isIdentity()) {
+            return warnings
+        }
+        const tx = request.getRawTransaction()
+        if (tx.delay_sec.toNumber() > 0) {
+            warnings.push({
+                code: RiskCode.DELAYED_TRANSACTION,
+                severity: 'warning',
+                message: `Transaction is delayed by ${tx.delay_sec} seconds`,
+            })
+        }
+        if (tx.transaction_extensions.length > 0) {
+            const types = tx.transaction_extensions.map((ext) => String(ext.type)).join(', ')
+            warnings.push({
+                code: RiskCode.TRANSACTION_EXTENSIONS,
+                severity: 'warning',
+                message: `Transaction has extensions of type ${types}`,
+            })
+        }
+        return warnings
+    },
+    function callbackScheme({request}) {
+        const callback = request.data.callback
+        if (!callback || /^https:\/\//i.test(callback)) {
+            return []
+        }
+        if (/^http:\/\//i.test(callback)) {
+            return [
+                {
+                    code: RiskCode.INSECURE_CALLBACK,
+                    severity: 'danger',
+                    message: 'Callback is sent unencrypted over http',
+                },
+            ]
+        }
+        const scheme = callback.split(':')[0]
+        return [
+            {
+                code: RiskCode.INSECURE_CALLBACK,
+                severity: 'warning',
+                message: `Callback is sent to ${scheme}: and handled by another app`,
+            },
+        ]
+    },
+]
+
+/**
+ * Analyze a request for contents the signer should be warned about.
+ * Actions without an ABI in `abis` are only checked by contract and action name.
+ */
+export function analyzeRequest(
+    request: SigningRequest,
+    abis: AbiMap = new Map(),
+    options: RiskAnalysisOptions = {}
+): RiskWarning[] {
+    const actions: RiskActionContext[] = []
+    if (!request.isIdentity()) {
+        const decode = (action: Action, index: number, contextFree: boolean) => {
+            actions.push({action, data: decodeData(action, abis), index, contextFree})
+        }
+        request.getRawContextFreeActions().forEach((action, i) => decode(action, i, true))
+        request.getRawActions().forEach((action, i) => decode(action, i, false))
+    }
+    const context: RiskContext = {request, actions}
+    const rules = [...DefaultRiskRules, ...(options.rules || [])]
+    return rules.reduce<RiskWarning[]>((warnings, rule) => warnings.concat(rule(context)), [])
+}
+
+function decodeData(action: Action, abis: AbiMap): Record<string, any> | undefined {
+    const abi = abis.get(String(action.account))
+    if (!abi) {
+        return undefined
+    }
+    try {
+        const decoded = action.decodeData(ABI.from(abi))
+        // stringify names and other values for use in messages
+        return JSON.parse(JSON.stringify(decoded))
+    } catch {
+        return undefined
+    }
+}
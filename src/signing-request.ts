@@ -13,13 +13,18 @@ import {
     Action,
     AnyAction,
     AnyTransaction,
+    Authority,
+    AuthorityType,
     Bytes,
     BytesType,
     Checksum256,
+    isInstanceOf,
     Name,
     NameType,
     PermissionLevel,
     PermissionLevelType,
+    PublicKey,
+    PublicKeyType,
     Serializer,
     Signature,
     SignatureType,
@@ -31,6 +36,7 @@ import {
     UInt16Type,
     UInt32,
     UInt32Type,
+    UInt64,
     UInt8,
     VarUInt,
 } from '@wharfkit/antelope'
@@ -43,10 +49,30 @@ import {
     InfoPair,
     RequestDataV2,
     RequestDataV3,
+    RequestFlagRegistry,
     RequestFlags,
     RequestSignature,
 } from './abi'
-import {IdentityProof} from './identity-proof'
+import {IdentityChallengeExtension, IdentityProof} from './identity-proof'
+import {
+    ChainMismatchError,
+    CorruptedPayloadError,
+    InvalidArgumentsError,
+    InvalidRequestError,
+    InvalidTaposError,
+    MissingAbiError,
+    MissingAbiProviderError,
+    MissingActionTypeError,
+    MissingSignatureError,
+    NotIdentityRequestError,
+    UnsupportedVersionError,
+} from './errors'
+import {diffRequests, RequestDifference, RequestDiffOptions} from './request-diff'
+import {requestFromObject, RequestObject, requestToObject} from './request-object'
+import {RequestSummary, summarizeRequest, SummaryOptions} from './request-summary'
+import {analyzeRequest, RiskAnalysisOptions, RiskWarning} from './risk-analysis'
+import {BuiltinZlib} from './zlib'
+import {formatRequestUri, parseRequestUri, RequestTransport, RequestUriOptions} from './request-uri'
 
 /** Current supported protocol version, backwards compatible with version 2. */
 export const ProtocolVersion = 3
@@ -145,6 +171,23 @@ export interface TransactionContext {
     chainId?: ChainIdType
 }
 
+/** Interface that should be implemented by transaction context providers. */
+export interface ContextProvider {
+    /**
+     * Return a promise that resolves to a context with TaPoS values and the chain id,
+     * e.g. derived from a rpc call to chain/get_info.
+     */
+    getContext: () => Promise<TransactionContext>
+}
+
+/** Providers used by `SigningRequest.resolveWith`. */
+export interface ResolveProviders {
+    /** Provider used to fetch ABIs, defaults to the request abi provider. */
+    abiProvider?: AbiProvider
+    /** Provider used to fetch the transaction context. */
+    contextProvider?: ContextProvider
+}
+
 /**
  * The placeholder name: `............1` aka `uint64(1)`.
  * If used in action data will be resolved to current signer.
@@ -184,6 +227,87 @@ export const PlaceholderAuth = PermissionLevel.from({
     permission: PlaceholderPermission,
 })
 
+/**
+ * Signers of a request that needs several authorizers.
+ *
+ * Example, `bob@active` cosigning with the wallet user:
+ * ```
+ * request.resolve(abis, {
+ *     signer: {actor: 'foo', permission: 'active'},
+ *     placeholders: {'............3': {actor: 'bob', permission: 'active'}},
+ * })
+ * ```
+ */
+export interface RequestSigners {
+    /** The signer the standard placeholders resolve to, i.e. the wallet user. */
+    signer: PermissionLevelType
+    /**
+     * Additional signers keyed by the reserved placeholder name they replace, `............3`
+     * to `............j`, other names are rejected since they could be real accounts.
+     * In action data the placeholder resolves to the signer account, in authorizations to
+     * the signer permission level if the permission is `PlaceholderPermission` or the placeholder.
+     */
+    placeholders?: {[placeholder: string]: PermissionLevelType}
+}
+
+/** Signatures made by one of the signers of a resolved request. */
+export interface SignerSignatures {
+    signer: PermissionLevelType
+    signatures: SignatureType[]
+}
+
+/** Context passed to placeholder resolvers. */
+export interface PlaceholderContext {
+    /** The signer the request is resolved for. */
+    signer: PermissionLevel
+    /** The chain the request is resolved for, unknown for multi-chain requests resolved without one. */
+    chainId?: ChainId
+    /** The action being resolved, with action data encoded. */
+    action: Action
+    /** Path of the value in the action, e.g. `data.quantity` or `authorization.0.actor`. */
+    path: string
+}
+
+/**
+ * Resolves custom placeholders when a request is resolved, either a reserved placeholder
+ * name or all fields of an ABI type.
+ *
+ * Example, substituting the core token contract of the chosen chain:
+ * ```
+ * const coreToken: PlaceholderResolver = {
+ *     name: 'core token contract',
+ *     placeholder: '............3',
+ *     resolve: (value, {chainId}) => (chainId && contracts[String(chainId)]) || undefined,
+ * }
+ * SigningRequest.from(uri, {placeholderResolvers: [coreToken]})
+ * ```
+ */
+export interface PlaceholderResolver {
+    /** Name of the resolver, shown in the resolved actions. */
+    name: string
+    /**
+     * Reserved name replaced in action data and authorizations, must not be a real account
+     * name or one of the signer placeholders, e.g. `............3`.
+     */
+    placeholder?: NameType
+    /** ABI type of the action data fields the resolver is called for, e.g. `asset`. */
+    type?: string
+    /** Return the value to use, or undefined to keep the value. */
+    resolve: (value: any, context: PlaceholderContext) => ABISerializable | undefined
+}
+
+/** A value that was filled in by a placeholder resolver. */
+export interface ResolvedPlaceholder {
+    /** Name of the resolver. */
+    resolver: string
+    /** Path of the value in the action, e.g. `data.quantity` or `authorization.0.actor`. */
+    path: string
+    /** The value in the request. */
+    value: ABISerializable
+    /** The value it was replaced with. */
+    resolved: ABISerializable
+}
+
 export interface ResolvedAction {
     /** The account (a.k.a. contract) to run action on. */
     account: Name
@@ -193,9 +317,51 @@ export interface ResolvedAction {
     authorization: PermissionLevel[]
     /** The decoded action data. */
     data: Record<string, ABISerializable>
+    /** Values filled in by placeholder resolvers, only set if there are any. */
+    placeholders?: ResolvedPlaceholder[]
+}
+
+/**
+ * An action that could not be decoded, only returned when resolving in lenient mode.
+ * Placeholders in the authorization are resolved, the data is kept as is.
+ */
+export interface UndecodedAction {
+    /** The account (a.k.a. contract) to run action on. */
+    account: Name
+    /** The name of the action. */
+    name: Name
+    /** The permissions authorizing the action. */
+    authorization: PermissionLevel[]
+    /** The raw action data. */
+    data: Bytes
+    /** Why the action could not be decoded, e.g. `Missing ABI definition for foo`. */
+    reason: string
+    /** Values filled in by placeholder resolvers, only set if there are any. */
+    placeholders?: ResolvedPlaceholder[]
+}
+
+/** Options used when resolving a request. */
+export interface ResolveOptions {
+    /**
+     * Whether to return actions that can not be decoded, e.g. because their ABI is missing,
+     * as `UndecodedAction` instead of throwing.
+     */
+    lenient?: boolean
 }
 
-export interface ResolvedTransaction {
+export interface ResolveActionsOptions extends ResolveOptions {
+    /** Chain passed to placeholder resolvers, defaults to the request chain. */
+    chainId?: ChainIdType
+}
+
+/** The resolved actions for resolve options, undecoded actions are only returned in lenient mode. */
+export type ResolvedActionType<O extends ResolveOptions> = 'lenient' extends keyof O
+    ? O['lenient'] extends false | undefined
+        ? ResolvedAction
+        : ResolvedAction | UndecodedAction
+    : ResolvedAction
+
+export interface ResolvedTransaction<A extends ResolvedAction | UndecodedAction = ResolvedAction> {
     /** The time at which a transaction expires. */
     expiration: TimePointSec
     /** *Specifies a block num in the last 2^16 blocks. */
@@ -209,9 +375,9 @@ export interface ResolvedTransaction {
     /** Number of seconds to delay this transaction for during which it may be canceled. */
     delay_sec: VarUInt
     /** The context free actions in the transaction. */
-    context_free_actions: ResolvedAction[]
+    context_free_actions: A[]
     /** The actions in the transaction. */
-    actions: ResolvedAction[]
+    actions: A[]
     /** Transaction extensions. */
     transaction_extensions: TransactionExtension[]
 }
@@ -276,19 +442,42 @@ export interface SigningRequestCreateIdentityArguments extends SigningRequestCom
      * Scope for the request.
      */
     scope?: NameType
+    /**
+     * Server-issued challenge the identity proof will be bound to, requires a scope.
+     */
+    challenge?: BytesType
 }
 
-export interface SigningRequestEncodingOptions {
-    /** Optional zlib, if provided the request will be compressed when encoding. */
+export interface SigningRequestEncodingOptions extends RequestUriOptions {
+    /** Optional zlib, defaults to the built-in deflate implementation `BuiltinZlib`. */
     zlib?: ZlibProvider
     /** Abi provider, required if the arguments contain un-encoded actions. */
     abiProvider?: AbiProvider
     /** Optional signature provider, will be used to create a request signature if provided. */
     signatureProvider?: SignatureProvider
+    /**
+     * Protocol versions newer than 3 that share its layout and should be decoded,
+     * e.g. `[4]`. Fields the version 3 layout can not interpret are reported to `onWarning`.
+     */
+    compatibleVersions?: number[]
+    /** Called with a message when decoding data that can not be fully interpreted. */
+    onWarning?: (message: string) => void
+    /** Resolvers for custom placeholders, used when the request is resolved. */
+    placeholderResolvers?: PlaceholderResolver[]
+    /** Registry with custom request flags, defaults to the protocol flags only. */
+    flagRegistry?: RequestFlagRegistry
 }
 
 export type AbiMap = Map<string, ABI>
 
+/**
+ * Request signature status.
+ * - `unsigned` the request carries no signature.
+ * - `invalid` the request is signed but not by the given key or authority.
+ * - `valid` the request is signed by the given key or authority.
+ */
+export type RequestSignatureStatus = 'unsigned' | 'invalid' | 'valid'
+
 export class SigningRequest {
     /** Return the identity ABI for given version. */
     private static identityAbi(version: number) {
@@ -318,7 +507,10 @@ export class SigningRequest {
         } else if (args.actions) {
             actions = args.actions
         } else if (args.transaction) {
-            actions = args.transaction.actions || []
+            actions = [
+                ...(args.transaction.context_free_actions || []),
+                ...(args.transaction.actions || []),
+            ]
         } else {
             actions = []
         }
@@ -333,7 +525,7 @@ export class SigningRequest {
         if (requiredAbis.length > 0) {
             const provider = options.abiProvider
             if (!provider) {
-                throw new Error('Missing abi provider')
+                throw new MissingAbiProviderError()
             }
             const accountAbis = await Promise.all(
                 requiredAbis.map((account) => provider.getAbi(account))
@@ -407,14 +599,12 @@ export class SigningRequest {
             if (tx.actions === undefined) {
                 tx.actions = []
             }
-            if (tx.context_free_actions === undefined) {
-                tx.context_free_actions = []
-            }
             // encode actions if needed
             tx.actions = tx.actions.map(encode)
+            tx.context_free_actions = tx.context_free_actions.map(encode)
             data.req = ['transaction', tx]
         } else {
-            throw new TypeError(
+            throw new InvalidArgumentsError(
                 'Invalid arguments: Must have exactly one of action, actions or transaction'
             )
         }
@@ -469,6 +659,8 @@ export class SigningRequest {
             options.zlib,
             options.abiProvider
         )
+        req.placeholderResolvers = options.placeholderResolvers || []
+        req.flagRegistry = options.flagRegistry
 
         // sign the request if given a signature provider
         if (options.signatureProvider) {
@@ -493,7 +685,10 @@ export class SigningRequest {
         ) {
             permission = undefined
         }
-        return this.createSync(
+        if (args.challenge !== undefined && !args.scope) {
+            throw new InvalidArgumentsError('Identity challenge requires a scope')
+        }
+        const request = this.createSync(
             {
                 ...args,
                 identity: {
@@ -504,6 +699,10 @@ export class SigningRequest {
             },
             options
         )
+        if (args.challenge !== undefined) {
+            request.setIdentityChallenge(args.challenge)
+        }
+        return request
     }
 
     /**
@@ -532,38 +731,109 @@ export class SigningRequest {
         return SigningRequest.fromData(encoder.getData(), options)
     }
 
-    /** Creates a signing request from encoded `esr:` uri string. */
+    /**
+     * Creates a signing request from encoded `esr:` uri string or https link.
+     * The transport is kept and used when encoding the request again.
+     * @throws {CorruptedPayloadError} If the payload can not be decoded.
+     */
     public static from(uri: string, options: SigningRequestEncodingOptions = {}) {
-        if (typeof uri !== 'string') {
-            throw new Error('Invalid request uri')
-        }
-        const [, path] = uri.split(':')
-
-        const data = base64u.decode(path.startsWith('//') ? path.slice(2) : path)
-        return SigningRequest.fromData(data, options)
+        const {payload, transport} = parseRequestUri(uri, options)
+        const request = SigningRequest.fromData(base64u.decode(payload, true), options)
+        request.transport = transport
+        return request
     }
 
+    /**
+     * Creates a signing request from binary data.
+     * Versions newer than 3 are only decoded if listed in `options.compatibleVersions`.
+     * @throws {UnsupportedVersionError} If the protocol version is not supported.
+     * @throws {CorruptedPayloadError} If the data can not be decoded.
+     */
     public static fromData(data: BytesType, options: SigningRequestEncodingOptions = {}) {
         data = Bytes.from(data)
         const header = data.array[0]
         const version = header & ~(1 << 7)
-        if (version !== 2 && version !== 3) {
-            throw new Error('Unsupported protocol version')
+        const compatible = version > 3 && (options.compatibleVersions || []).includes(version)
+        if (version !== 2 && version !== 3 && !compatible) {
+            throw new UnsupportedVersionError(version)
+        }
+        const warn = options.onWarning || (() => undefined)
+        if (compatible) {
+            warn(`Decoding version ${version} request using the version 3 layout`)
         }
         let payload = data.droppingFirst(1)
-        if ((header & (1 << 7)) !== 0) {
-            if (!options.zlib) {
-                throw new Error('Compressed URI needs zlib')
+        let req: RequestDataV2 | RequestDataV3
+        let sig: RequestSignature | undefined
+        let unread = 0
+        try {
+            if ((header & (1 << 7)) !== 0) {
+                const zlib = options.zlib || BuiltinZlib
+                payload = Bytes.from(zlib.inflateRaw(payload.array))
             }
-            payload = Bytes.from(options.zlib.inflateRaw(payload.array))
+            const decoder = new ABIDecoder(payload.array)
+            req = Serializer.decode({data: decoder, type: this.storageType(version)})
+            if (decoder.canRead()) {
+                const position = decoder.getPosition()
+                try {
+                    sig = Serializer.decode({
+                        data: decoder,
+                        type: RequestSignature,
+                    }) as RequestSignature
+                } catch (error) {
+                    // newer versions may append fields that are not a signature
+                    if (!compatible) {
+                        throw error
+                    }
+                    decoder.setPosition(position)
+                }
+            }
+            unread = payload.length - decoder.getPosition()
+        } catch (error) {
+            throw new CorruptedPayloadError(
+                `Corrupted payload: ${(error as Error).message || error}`
+            )
         }
-        const decoder = new ABIDecoder(payload.array)
-        const req = Serializer.decode({data: decoder, type: this.storageType(version)})
-        let sig: RequestSignature | undefined
-        if (decoder.canRead()) {
-            sig = Serializer.decode({data: decoder, type: RequestSignature}) as RequestSignature
+        if (unread > 0) {
+            warn(`Ignoring ${unread} bytes of unknown data`)
         }
-        return new SigningRequest(version, req, options.zlib, options.abiProvider, sig)
+        const unknownBits = req.flags.unknownBits(options.flagRegistry)
+        if (unknownBits) {
+            warn(`Unknown request flags 0x${unknownBits.toString(16)}, kept as is`)
+        }
+        const request = new SigningRequest(version, req, options.zlib, options.abiProvider, sig)
+        request.compressed = (header & (1 << 7)) !== 0
+        request.placeholderResolvers = options.placeholderResolvers || []
+        request.flagRegistry = options.flagRegistry
+        return request
+    }
+
+    /**
+     * Create a request from its JSON representation, see `toObject`.
+     * Versions newer than 3 are only accepted if listed in `options.compatibleVersions`.
+     * @param abis ABIs for actions with decoded data and no `hex_data`.
+     * @throws {UnsupportedVersionError} If the protocol version is not supported.
+     * @throws {InvalidArgumentsError} If the object is malformed.
+     */
+    public static fromObject(
+        object: RequestObject,
+        options: SigningRequestEncodingOptions = {},
+        abis: AbiMap = new Map()
+    ) {
+        const {version, data, signature} = requestFromObject(
+            object,
+            abis,
+            options.compatibleVersions
+        )
+        const request = new SigningRequest(
+            version,
+            data,
+            options.zlib,
+            options.abiProvider,
+            signature
+        )
+        request.placeholderResolvers = options.placeholderResolvers || []
+        request.flagRegistry = options.flagRegistry
+        return request
     }
 
     /** The signing request version. */
@@ -575,7 +845,19 @@ export class SigningRequest {
     /** The request signature. */
     public signature?: RequestSignature
 
-    private zlib?: ZlibProvider
+    /** How the request was received, set when decoded with `from`. */
+    public transport?: RequestTransport
+
+    /** Whether the request data was compressed, set when decoded with `from` or `fromData`. */
+    public compressed?: boolean
+
+    /** Resolvers for custom placeholders, see `SigningRequestEncodingOptions`. */
+    public placeholderResolvers: PlaceholderResolver[] = []
+
+    /** Registry with custom request flags, see `SigningRequestEncodingOptions`. */
+    public flagRegistry?: RequestFlagRegistry
+
+    private zlib: ZlibProvider
     private abiProvider?: AbiProvider
 
     /**
@@ -590,11 +872,11 @@ export class SigningRequest {
         signature?: RequestSignature
     ) {
         if (data.flags.broadcast && data.req.variantName === 'identity') {
-            throw new Error('Invalid request (identity request cannot be broadcast)')
+            throw new InvalidRequestError('Invalid request (identity request cannot be broadcast)')
         }
         this.version = version
         this.data = data
-        this.zlib = zlib
+        this.zlib = zlib || BuiltinZlib
         this.abiProvider = abiProvider
         this.signature = signature
     }
@@ -617,6 +899,50 @@ export class SigningRequest {
         return Checksum256.hash(Bytes.from(prefix).appending(this.getData()))
     }
 
+    /**
+     * Recover the public key that signed this request.
+     * @returns The recovered key or null if the request is not signed.
+     */
+    public recoverSignatureKey(): PublicKey | null {
+        if (!this.signature) {
+            return null
+        }
+        return this.signature.signature.recoverDigest(this.getSignatureDigest())
+    }
+
+    /**
+     * Verify that the request was signed by given key or authority.
+     * @param auth Public key or signing authority of the expected signer.
+     * @returns Signature status, `unsigned`, `invalid` or `valid`.
+     */
+    public getSignatureStatus(auth: PublicKeyType | AuthorityType): RequestSignatureStatus {
+        if (!this.signature) {
+            return 'unsigned'
+        }
+        let key: PublicKey
+        try {
+            key = this.recoverSignatureKey()!
+        } catch {
+            return 'invalid'
+        }
+        let valid: boolean
+        if (isInstanceOf(auth, Authority) || (typeof auth === 'object' && 'threshold' in auth)) {
+            valid = Authority.from(auth as AuthorityType).hasPermission(key)
+        } else {
+            valid = key.equals(auth as PublicKeyType)
+        }
+        return valid ? 'valid' : 'invalid'
+    }
+
+    /**
+     * Verify that the request was signed by given key or authority.
+     * @param auth Public key or signing authority of the expected signer.
+     * @returns False if the request is unsigned or signed by someone else.
+     */
+    public verifySignature(auth: PublicKeyType | AuthorityType): boolean {
+        return this.getSignatureStatus(auth) === 'valid'
+    }
+
     /**
      * Set the signature data for this request, mutating.
      * @param signer Account name of signer.
@@ -646,18 +972,29 @@ export class SigningRequest {
 
     /**
      * Encode this request into an `esr:` uri.
-     * @argument compress Whether to compress the request data using zlib,
-     *                    defaults to true if omitted and zlib is present;
-     *                    otherwise false.
+     * @argument compress Whether to compress the request data using zlib, defaults to true.
      * @argument slashes Whether add slashes after the protocol scheme, i.e. `esr://`.
      *                   Defaults to true.
+     * @argument scheme The uri scheme, defaults to the transport the request was decoded from or `esr:`.
      * @returns An esr uri string.
      */
-    public encode(compress?: boolean, slashes?: boolean, scheme: string = 'esr:'): string {
-        const shouldCompress = compress !== undefined ? compress : this.zlib !== undefined
-        if (shouldCompress && this.zlib === undefined) {
-            throw new Error('Need zlib to compress')
+    public encode(compress?: boolean, slashes?: boolean, scheme?: string): string {
+        const payload = base64u.encode(this.getEncodedData(compress))
+        let transport = this.transport
+        if (scheme !== undefined || !transport) {
+            transport = {type: 'scheme', scheme: scheme || 'esr:', slashes: slashes !== false}
+        } else if (slashes !== undefined && transport.type === 'scheme') {
+            transport = {...transport, slashes}
         }
+        return formatRequestUri(payload, transport)
+    }
+
+    /**
+     * Get the request data with header and signature, as encoded in the `esr:` uri.
+     * @argument compress Whether to compress the request data using zlib, defaults to true.
+     */
+    public getEncodedData(compress?: boolean): Uint8Array {
+        const shouldCompress = compress !== false
         let header = this.version
         const data = this.getData()
         const sigData = this.getSignatureData()
@@ -665,7 +1002,7 @@ export class SigningRequest {
         array.set(data, 0)
         array.set(sigData, data.byteLength)
         if (shouldCompress) {
-            const deflated = this.zlib!.deflateRaw(array)
+            const deflated = this.zlib.deflateRaw(array)
             if (array.byteLength > deflated.byteLength) {
                 header |= 1 << 7
                 array = deflated
@@ -674,10 +1011,7 @@ export class SigningRequest {
         const out = new Uint8Array(1 + array.byteLength)
         out[0] = header
         out.set(array, 1)
-        if (slashes !== false) {
-            scheme += '//'
-        }
-        return scheme + base64u.encode(out)
+        return out
     }
 
     /** Get the request data without header or signature. */
@@ -695,10 +1029,10 @@ export class SigningRequest {
 
     /** ABI definitions required to resolve request. */
     public getRequiredAbis() {
-        return this.getRawActions()
+        return [...this.getRawContextFreeActions(), ...this.getRawActions()]
             .filter((action) => !isIdentity(action))
             .map((action) => action.account)
-            .filter((value, index, self) => self.indexOf(value) === index)
+            .filter((value, index, self) => self.findIndex((v) => v.equals(value)) === index)
     }
 
     /** Whether TaPoS values are required to resolve request. */
@@ -707,18 +1041,36 @@ export class SigningRequest {
         return !this.isIdentity() && !hasTapos(tx)
     }
 
-    /** Resolve required ABI definitions. */
-    public async fetchAbis(abiProvider?: AbiProvider): Promise<AbiMap> {
+    /**
+     * Resolve required ABI definitions.
+     * @param options In lenient mode ABIs that can not be fetched are left out.
+     */
+    public async fetchAbis(
+        abiProvider?: AbiProvider,
+        options: ResolveOptions = {}
+    ): Promise<AbiMap> {
         const required = this.getRequiredAbis()
         if (required.length > 0) {
             const provider = abiProvider || this.abiProvider
             if (!provider) {
-                throw new Error('Missing ABI provider')
+                throw new MissingAbiProviderError()
             }
             const abis = new Map<string, any>()
             await Promise.all(
                 required.map(async (account) => {
-                    abis.set(account.toString(), ABI.from(await provider.getAbi(account)))
+                    let abi: ABIDef | undefined
+                    try {
+                        abi = await provider.getAbi(account)
+                    } catch (error) {
+                        if (!options.lenient) {
+                            throw error
+                        }
+                    }
+                    if (abi) {
+                        abis.set(account.toString(), ABI.from(abi))
+                    } else if (!options.lenient) {
+                        throw new MissingAbiError(account)
+                    }
                 })
             )
             return abis
@@ -730,79 +1082,180 @@ export class SigningRequest {
     /**
      * Decode raw actions actions to object representations.
      * @param abis ABI defenitions required to decode all actions.
-     * @param signer Placeholders in actions will be resolved to signer if set.
+     * @param signer Placeholders in actions will be resolved to signer, or signers, if set.
+     * @param options Chain passed to placeholder resolvers and whether to resolve leniently.
      */
-    public resolveActions(abis: AbiMap, signer?: PermissionLevelType): ResolvedAction[] {
-        return this.getRawActions().map((rawAction) => {
+    public resolveActions<O extends ResolveActionsOptions = ResolveOptions & {lenient?: undefined}>(
+        abis: AbiMap,
+        signer?: PermissionLevelType | RequestSigners,
+        options?: O
+    ): ResolvedActionType<O>[] {
+        return this.resolveRawActions(
+            this.getRawActions(),
+            abis,
+            signer,
+            options
+        ) as ResolvedActionType<O>[]
+    }
+
+    /**
+     * Decode raw context free actions to object representations.
+     * @param abis ABI defenitions required to decode all context free actions.
+     * @param signer Placeholders in actions will be resolved to signer, or signers, if set.
+     * @param options Chain passed to placeholder resolvers and whether to resolve leniently.
+     */
+    public resolveContextFreeActions<
+        O extends ResolveActionsOptions = ResolveOptions & {lenient?: undefined}
+    >(
+        abis: AbiMap,
+        signer?: PermissionLevelType | RequestSigners,
+        options?: O
+    ): ResolvedActionType<O>[] {
+        return this.resolveRawActions(
+            this.getRawContextFreeActions(),
+            abis,
+            signer,
+            options
+        ) as ResolvedActionType<O>[]
+    }
+
+    private resolveRawActions(
+        rawActions: Action[],
+        abis: AbiMap,
+        signer?: PermissionLevelType | RequestSigners,
+        options: ResolveActionsOptions = {}
+    ): (ResolvedAction | UndecodedAction)[] {
+        let chain: ChainId | undefined
+        if (options.chainId !== undefined) {
+            chain = ChainId.from(options.chainId)
+        } else if (!this.isMultiChain()) {
+            chain = this.getChainId()
+        }
+        const resolvers = this.placeholderResolvers
+        for (const resolver of resolvers) {
+            validateResolver(resolver)
+        }
+        const signers = signer ? normalizeSigners(signer) : undefined
+        return rawActions.map((rawAction) => {
             let abi: ABI
-            if (isIdentity(rawAction)) {
-                abi = (this.constructor as typeof SigningRequest).identityAbi(this.version)
-            } else {
-                const rawAbi = abis.get(rawAction.account.toString())
-                if (!rawAbi) {
-                    throw new Error(`Missing ABI definition for ${rawAction.account}`)
+            let type: string
+            let data: Record<string, ABISerializable>
+            try {
+                if (isIdentity(rawAction)) {
+                    abi = (this.constructor as typeof SigningRequest).identityAbi(this.version)
+                } else {
+                    const rawAbi = abis.get(rawAction.account.toString())
+                    if (!rawAbi) {
+                        throw new MissingAbiError(rawAction.account)
+                    }
+                    abi = ABI.from(rawAbi)
                 }
-                abi = ABI.from(rawAbi)
-            }
-            const type = abi.getActionType(rawAction.name)
-            if (!type) {
-                throw new Error(
-                    `Missing type for action ${rawAction.account}:${rawAction.name} in ABI`
-                )
+                const actionType = abi.getActionType(rawAction.name)
+                if (!actionType) {
+                    throw new MissingActionTypeError(rawAction.account, rawAction.name)
+                }
+                type = actionType
+                data = rawAction.decodeData(abi) as Record<string, ABISerializable>
+            } catch (error) {
+                if (!options.lenient) {
+                    throw error
+                }
+                const reason = (error as Error).message || String(error)
+                return this.resolveUndecoded(rawAction, reason, signers, resolvers, chain)
             }
-            let data = rawAction.decodeData(abi) as Record<string, ABISerializable>
             let authorization = rawAction.authorization
-            if (signer) {
-                const signerPerm = PermissionLevel.from(signer)
-                const resolve = (value: any): any => {
+            const filled: ResolvedPlaceholder[] = []
+            if (signers) {
+                const {signer: signerPerm, placeholders} = signers
+                const custom = customResolver(resolvers, filled, {
+                    signer: signerPerm,
+                    chainId: chain,
+                    action: rawAction,
+                })
+                const resolve = (value: any, path: string): any => {
                     if (value instanceof Name) {
-                        if (value.equals(PlaceholderName)) {
+                        const other = placeholders.get(String(value))
+                        if (other) {
+                            return other.actor
+                        } else if (value.equals(PlaceholderName)) {
                             return signerPerm.actor
                         } else if (value.equals(PlaceholderPermission)) {
                             return signerPerm.permission
                         } else {
-                            return value
+                            return custom.name(value, path) || value
                         }
                     } else if (Array.isArray(value)) {
-                        return value.map(resolve)
+                        return value.map((item, i) => resolve(item, `${path}.${i}`))
                     } else if (typeof value === 'object' && value !== null) {
                         for (const key of Object.keys(value)) {
-                            value[key] = resolve(value[key])
+                            value[key] = resolve(value[key], `${path}.${key}`)
                         }
                         return value
                     } else {
                         return value
                     }
                 }
-                data = resolve(data)
-                authorization = authorization.map((auth) => {
-                    let {actor, permission} = auth
-                    if (actor.equals(PlaceholderName)) {
-                        actor = signerPerm.actor
-                    }
-                    if (permission.equals(PlaceholderPermission)) {
-                        permission = signerPerm.permission
-                    }
-                    // backwards compatibility, actor placeholder will also resolve to permission when used in auth
-                    if (permission.equals(PlaceholderName)) {
-                        permission = signerPerm.permission
-                    }
-                    return PermissionLevel.from({actor, permission})
-                })
+                data = resolve(data, 'data')
+                if (resolvers.some((r) => r.type !== undefined)) {
+                    data = resolveFields(abi, abi.resolveType(type), data, 'data', custom.field)
+                }
+                authorization = resolveAuthorization(authorization, signers, custom)
             }
-            return {
+            const action: ResolvedAction = {
                 ...rawAction,
                 authorization,
                 data,
             }
+            if (filled.length > 0) {
+                action.placeholders = filled
+            }
+            return action
         })
     }
 
-    public resolveTransaction(
+    /** Return an action that could not be decoded, with placeholders in the authorization resolved. */
+    private resolveUndecoded(
+        rawAction: Action,
+        reason: string,
+        signers: ReturnType<typeof normalizeSigners> | undefined,
+        resolvers: PlaceholderResolver[],
+        chainId?: ChainId
+    ): UndecodedAction {
+        const action: UndecodedAction = {
+            account: rawAction.account,
+            name: rawAction.name,
+            authorization: rawAction.authorization,
+            data: rawAction.data,
+            reason,
+        }
+        if (signers) {
+            const filled: ResolvedPlaceholder[] = []
+            const custom = customResolver(resolvers, filled, {
+                signer: signers.signer,
+                chainId,
+                action: rawAction,
+            })
+            action.authorization = resolveAuthorization(action.authorization, signers, custom)
+            if (filled.length > 0) {
+                action.placeholders = filled
+            }
+        }
+        return action
+    }
+
+    /**
+     * Resolve the transaction with action data decoded.
+     * @param abis ABI definitions required to decode all actions.
+     * @param signer The account that will sign the transaction, or several signers.
+     * @param ctx Context used to fill in TaPoS values and the chain id.
+     * @param options Whether to resolve leniently, keeping actions that can not be decoded.
+     */
+    public resolveTransaction<O extends ResolveOptions = ResolveOptions & {lenient?: undefined}>(
         abis: AbiMap,
-        signer: PermissionLevelType,
-        ctx: TransactionContext = {}
-    ) {
+        signer: PermissionLevelType | RequestSigners,
+        ctx: TransactionContext = {},
+        options?: O
+    ): ResolvedTransaction<ResolvedActionType<O>> {
         const tx = this.getRawTransaction()
         if (!this.isIdentity() && !hasTapos(tx)) {
             if (
@@ -822,25 +1275,45 @@ export class SigningRequest {
                 tx.ref_block_num = UInt16.from(ctx.block_num, 'truncate')
                 tx.ref_block_prefix = UInt32.from(ctx.ref_block_prefix)
             } else {
-                throw new Error(
-                    'Invalid transaction context, need either a reference block or explicit TaPoS values'
-                )
+                throw new InvalidTaposError()
             }
         } else if (this.isIdentity() && this.version > 2) {
             // From ESR version 3 all identity requests have expiration
             tx.expiration = ctx.expiration
                 ? TimePointSec.from(ctx.expiration)
                 : expirationTime(ctx.timestamp, ctx.expire_seconds)
+            const challenge = this.getIdentityChallenge()
+            if (challenge) {
+                tx.transaction_extensions = [
+                    TransactionExtension.from({type: IdentityChallengeExtension, data: challenge}),
+                ]
+            }
         }
-        const actions = this.resolveActions(abis, signer)
-        // TODO: resolve context free actions
-        const context_free_actions = tx.context_free_actions as unknown as ResolvedAction[]
-        return {...tx, context_free_actions, actions} as ResolvedTransaction
+        const resolveOptions = {...options, chainId: ctx.chainId}
+        const actions = this.resolveActions(abis, signer, resolveOptions)
+        const context_free_actions = this.resolveContextFreeActions(abis, signer, resolveOptions)
+        return {...tx, context_free_actions, actions} as ResolvedTransaction<ResolvedActionType<O>>
     }
 
-    public resolve(abis: AbiMap, signer: PermissionLevelType, ctx: TransactionContext = {}) {
-        const tx = this.resolveTransaction(abis, signer, ctx)
-        const actions = tx.actions.map((action) => {
+    /**
+     * Resolve the request into a transaction that can be signed.
+     * @param abis ABI definitions required to encode all actions.
+     * @param signer The account that will sign the transaction, or several signers.
+     * @param ctx Context used to fill in TaPoS values and the chain id.
+     * @param options In lenient mode actions that can not be decoded are signed with their raw data.
+     */
+    public resolve<O extends ResolveOptions = ResolveOptions & {lenient?: undefined}>(
+        abis: AbiMap,
+        signer: PermissionLevelType | RequestSigners,
+        ctx: TransactionContext = {},
+        options?: O
+    ): ResolvedSigningRequest<ResolvedActionType<O>> {
+        const tx = this.resolveTransaction(abis, signer, ctx, options)
+        const encode = (action: ResolvedAction | UndecodedAction) => {
+            if (isUndecoded(action)) {
+                const {account, name, authorization, data} = action
+                return Action.from({account, name, authorization, data})
+            }
             let abi: ABI | undefined
             if (isIdentity(action)) {
                 abi = (this.constructor as typeof SigningRequest).identityAbi(this.version)
@@ -848,35 +1321,75 @@ export class SigningRequest {
                 abi = abis.get(action.account.toString())
             }
             if (!abi) {
-                throw new Error(`Missing ABI definition for ${action.account}`)
+                throw new MissingAbiError(action.account)
             }
             const type = abi.getActionType(action.name)!
             const data = Serializer.encode({object: action.data, type, abi})
             return Action.from({...action, data})
-        })
-        const transaction = Transaction.from({...tx, actions})
+        }
+        const actions = tx.actions.map(encode)
+        const context_free_actions = tx.context_free_actions.map(encode)
+        const transaction = Transaction.from({...tx, context_free_actions, actions})
         let chainId: ChainId
         if (this.isMultiChain()) {
             if (!ctx.chainId) {
-                throw new Error('Missing chosen chain ID for multi-chain request')
+                throw new ChainMismatchError(
+                    'Missing chosen chain ID for multi-chain request',
+                    undefined,
+                    this.getChainIds() || undefined
+                )
             }
             chainId = ChainId.from(ctx.chainId)
             const ids = this.getChainIds()
             if (ids && !ids.some((id) => chainId.equals(id))) {
-                throw new Error('Trying to resolve for chain ID not defined in request')
+                throw new ChainMismatchError(
+                    'Trying to resolve for chain ID not defined in request',
+                    chainId,
+                    ids
+                )
             }
         } else {
             chainId = this.getChainId()
         }
         return new ResolvedSigningRequest(
             this,
-            PermissionLevel.from(signer),
+            normalizeSigners(signer).signer,
             transaction,
             tx,
             chainId
         )
     }
 
+    /**
+     * Fetch the required ABIs and transaction context and resolve the request.
+     * @param providers Providers for ABIs and transaction context.
+     * @param signer The account that will sign the transaction, or several signers.
+     * @param ctx Context values that take precedence over the provided context.
+     * @param options In lenient mode ABIs that can not be fetched are skipped and the actions
+     *                that need them are signed with their raw data.
+     */
+    public async resolveWith<O extends ResolveOptions = ResolveOptions & {lenient?: undefined}>(
+        providers: ResolveProviders,
+        signer: PermissionLevelType | RequestSigners,
+        ctx: TransactionContext = {},
+        options?: O
+    ): Promise<ResolvedSigningRequest<ResolvedActionType<O>>> {
+        const [abis, provided] = await Promise.all([
+            this.fetchAbis(providers.abiProvider, options),
+            providers.contextProvider ? providers.contextProvider.getContext() : {},
+        ])
+        const context: TransactionContext = {...provided, ...ctx}
+        if (!this.isMultiChain() && context.chainId !== undefined) {
+            const chainId = ChainId.from(context.chainId)
+            if (!chainId.equals(this.getChainId())) {
+                throw new ChainMismatchError('Context chain ID does not match request', chainId, [
+                    this.getChainId(),
+                ])
+            }
+        }
+        return this.resolve(abis, signer, context, options)
+    }
+
     /**
      * Get the id of the chain where this request is valid.
      * @returns The 32-byte chain id as hex encoded string.
@@ -968,8 +1481,17 @@ export class SigningRequest {
             case 'transaction':
                 return (req.value as Transaction).actions
             default:
-                throw new Error('Invalid signing request data')
+                throw new InvalidRequestError()
+        }
+    }
+
+    /** Return the context free actions in this request with action data encoded. */
+    public getRawContextFreeActions(): Action[] {
+        const req = this.data.req
+        if (req.variantName === 'transaction') {
+            return (req.value as Transaction).context_free_actions
         }
+        return []
     }
 
     /** Unresolved transaction. */
@@ -993,7 +1515,7 @@ export class SigningRequest {
                     delay_sec: 0,
                 })
             default:
-                throw new Error('Invalid signing request data')
+                throw new InvalidRequestError()
         }
     }
 
@@ -1055,6 +1577,34 @@ export class SigningRequest {
         return id.scope
     }
 
+    /**
+     * Present if the request is an identity request with the `identity_challenge` flag set,
+     * the challenge is included in the transaction signed by the wallet.
+     * A `challenge` info key without the flag is ignored since the proof is not bound to it.
+     */
+    public getIdentityChallenge(): Bytes | null {
+        if (!this.isIdentity() || this.version <= 2 || !this.data.flags.identityChallenge) {
+            return null
+        }
+        return this.getRawInfoKey('challenge') || null
+    }
+
+    /**
+     * Set the challenge the identity proof should be bound to, and the `identity_challenge` flag.
+     * Wallets that do not support the flag sign proofs that are not bound to the challenge,
+     * these fail verification against the challenge.
+     * @throws {NotIdentityRequestError} If the request is not a version 3 identity request.
+     */
+    public setIdentityChallenge(challenge: BytesType) {
+        if (!this.isIdentity() || this.version <= 2) {
+            throw new NotIdentityRequestError(
+                'Identity challenges require a version 3 identity request'
+            )
+        }
+        this.setRawInfoKey('challenge', challenge)
+        this.data.flags.identityChallenge = true
+    }
+
     /** Get raw info dict */
     public getRawInfo(): {[key: string]: Bytes} {
         const rv: {[key: string]: Bytes} = {}
@@ -1118,7 +1668,59 @@ export class SigningRequest {
         }
         const RequestData = (this.constructor as typeof SigningRequest).storageType(this.version)
         const data = RequestData.from(JSON.parse(JSON.stringify(this.data)))
-        return new SigningRequest(this.version, data, this.zlib, this.abiProvider, signature)
+        const request = new SigningRequest(
+            this.version,
+            data,
+            this.zlib,
+            this.abiProvider,
+            signature
+        )
+        request.transport = this.transport
+        request.compressed = this.compressed
+        request.placeholderResolvers = this.placeholderResolvers
+        request.flagRegistry = this.flagRegistry
+        return request
+    }
+
+    /**
+     * Describe the request for display, e.g. on a confirmation screen.
+     * @param abis ABI definitions required to decode all actions.
+     * @param options Signer to show in place of placeholders and placeholder texts.
+     */
+    public getSummary(abis: AbiMap, options: SummaryOptions = {}): RequestSummary {
+        return summarizeRequest(this, abis, options)
+    }
+
+    /**
+     * Check the request for contents the signer should be warned about, e.g. permission changes.
+     * @param abis ABI definitions used to decode actions, actions without ABI are checked by name only.
+     * @param options Additional rules to run.
+     */
+    public analyze(abis: AbiMap = new Map(), options: RiskAnalysisOptions = {}): RiskWarning[] {
+        return analyzeRequest(this, abis, options)
+    }
+
+    /**
+     * Return a JSON representation of the request, e.g. for logs.
+     * Unlike `toJSON` the contents are readable without decoding the request.
+     * @param abis ABI definitions used to decode actions, actions without ABI are shown as hex.
+     */
+    public toObject(abis: AbiMap = new Map()): RequestObject {
+        return requestToObject(this, abis)
+    }
+
+    /**
+     * Compare the decoded structure of this request with another request.
+     * @param options ABIs used to decode actions and whether to ignore signature or compression.
+     * @returns The fields that differ, empty if the requests are equal.
+     */
+    public diff(other: SigningRequest, options: RequestDiffOptions = {}): RequestDifference[] {
+        return diffRequests(this, other, options)
+    }
+
+    /** Whether this request has the same contents as another request, see `diff`. */
+    public equals(other: SigningRequest, options: RequestDiffOptions = {}): boolean {
+        return this.diff(other, options).length === 0
     }
 
     // Convenience methods.
@@ -1132,7 +1734,7 @@ export class SigningRequest {
     }
 }
 
-export class ResolvedSigningRequest {
+export class ResolvedSigningRequest<A extends ResolvedAction | UndecodedAction = ResolvedAction> {
     /** Recreate a resolved request from a callback payload. */
     static async fromPayload(
         payload: CallbackPayload,
@@ -1159,7 +1761,7 @@ export class ResolvedSigningRequest {
     /** Transaction object with action data encoded. */
     public readonly transaction: Transaction
     /** Transaction object with action data decoded. */
-    public readonly resolvedTransaction: ResolvedTransaction
+    public readonly resolvedTransaction: ResolvedTransaction<A>
     /** Id of chain where the request was resolved. */
     public readonly chainId: ChainId
 
@@ -1167,7 +1769,7 @@ export class ResolvedSigningRequest {
         request: SigningRequest,
         signer: PermissionLevel,
         transaction: Transaction,
-        resolvedTransaction: ResolvedTransaction,
+        resolvedTransaction: ResolvedTransaction<A>,
         chainId: ChainId
     ) {
         this.request = request
@@ -1189,16 +1791,39 @@ export class ResolvedSigningRequest {
         return this.transaction.signingData(this.chainId)
     }
 
+    /** Permissions that must sign the transaction, the authorizations of all actions. */
+    public get requiredSigners(): PermissionLevel[] {
+        const signers: PermissionLevel[] = []
+        for (const action of this.transaction.actions) {
+            for (const auth of action.authorization) {
+                if (!signers.some((signer) => signer.equals(auth))) {
+                    signers.push(auth)
+                }
+            }
+        }
+        return signers
+    }
+
+    /**
+     * Resolve the callback, if the request has one.
+     * @param signatures The transaction signatures, or signatures grouped by signer in which
+     *                   case all required signers must have signed and the signer goes first.
+     * @param blockNum The block number the transaction was included in, if broadcast.
+     * @throws {MissingSignatureError} If signatures are missing.
+     */
     public getCallback(
-        signatures: SignatureType[],
+        signatures: SignatureType[] | SignerSignatures[],
         blockNum?: UInt32Type
     ): ResolvedCallback | null {
         const {callback, flags} = this.request.data
         if (!callback || callback.length === 0) {
             return null
         }
+        if (isSignerSignatures(signatures)) {
+            signatures = this.flattenSignatures(signatures)
+        }
         if (!signatures || signatures.length === 0) {
-            throw new Error('Must have at least one signature to resolve callback')
+            throw new MissingSignatureError('Must have at least one signature to resolve callback')
         }
         const sigs = signatures.map((sig) => Signature.from(sig))
         const payload: CallbackPayload = {
@@ -1207,7 +1832,7 @@ export class ResolvedSigningRequest {
             rbn: String(this.transaction.ref_block_num),
             rid: String(this.transaction.ref_block_prefix),
             ex: String(this.transaction.expiration),
-            req: this.request.encode(),
+            req: this.request.encode(undefined, undefined, 'esr:'),
             sa: String(this.signer.actor),
             sp: String(this.signer.permission),
             cid: String(this.chainId),
@@ -1228,9 +1853,45 @@ export class ResolvedSigningRequest {
         }
     }
 
+    /** Return the signatures of all required signers, the signer's signatures first. */
+    private flattenSignatures(groups: SignerSignatures[]): SignatureType[] {
+        const signed = groups
+            .filter((group) => group.signatures.length > 0)
+            .map((group) => ({...group, signer: PermissionLevel.from(group.signer)}))
+        for (const required of this.requiredSigners) {
+            if (!signed.some((group) => group.signer.equals(required))) {
+                throw new MissingSignatureError(`Missing signature for ${required}`)
+            }
+        }
+        for (const {signer} of signed) {
+            if (!this.requiredSigners.some((required) => required.equals(signer))) {
+                throw new InvalidArgumentsError(`${signer} is not a signer of the transaction`)
+            }
+        }
+        signed.sort(
+            (a, b) => Number(b.signer.equals(this.signer)) - Number(a.signer.equals(this.signer))
+        )
+        return signed.reduce<SignatureType[]>((sigs, group) => sigs.concat(group.signatures), [])
+    }
+
+    /**
+     * Describe the resolved request for display, placeholders are shown as the signer.
+     * @param abis ABI definitions required to decode all actions.
+     */
+    public getSummary(
+        abis: AbiMap,
+        options: Omit<SummaryOptions, 'signer' | 'chainId'> = {}
+    ): RequestSummary {
+        return summarizeRequest(this.request, abis, {
+            ...options,
+            signer: this.signer,
+            chainId: this.chainId,
+        })
+    }
+
     public getIdentityProof(signature: SignatureType) {
         if (!this.request.isIdentity()) {
-            throw new Error('Not a identity request')
+            throw new NotIdentityRequestError()
         }
         return IdentityProof.from({
             chainId: this.chainId,
@@ -1238,6 +1899,7 @@ export class ResolvedSigningRequest {
             expiration: this.transaction.expiration,
             signer: this.signer,
             signature,
+            challenge: this.request.getIdentityChallenge(),
         })
     }
 }
@@ -1248,7 +1910,7 @@ function encodeAction(action: AnyAction, abis: Record<string, ABIDef>): Action {
     }
     const abi = abis[String(Name.from(action.account))]
     if (!abi) {
-        throw new Error(`Missing ABI for ${action.account}`)
+        throw new MissingAbiError(action.account)
     }
     const data = Action.from(action, abi)
     // TODO: The way payloads are encoded is including the ABI, which isn't what we want
@@ -1257,6 +1919,173 @@ function encodeAction(action: AnyAction, abis: Record<string, ABIDef>): Action {
     return data
 }
 
+/**
+ * Return functions that run the placeholder resolvers for a name or a typed field,
+ * returning undefined if no resolver applies. Filled in values are added to `filled`.
+ */
+function customResolver(
+    resolvers: PlaceholderResolver[],
+    filled: ResolvedPlaceholder[],
+    context: Omit<PlaceholderContext, 'path'>
+) {
+    const run = (value: any, path: string, matches: (r: PlaceholderResolver) => boolean) => {
+        for (const resolver of resolvers.filter(matches)) {
+            const resolved = resolver.resolve(value, {...context, path})
+            if (resolved !== undefined) {
+                filled.push({resolver: resolver.name, path, value, resolved})
+                return resolved
+            }
+        }
+    }
+    return {
+        name: (value: Name, path: string) => {
+            const resolved = run(
+                value,
+                path,
+                (r) => r.placeholder !== undefined && value.equals(r.placeholder)
+            )
+            return resolved !== undefined ? Name.from(resolved as NameType) : undefined
+        },
+        field: (value: any, types: string[], path: string) =>
+            run(value, path, (r) => r.type !== undefined && types.includes(r.type)),
+    }
+}
+
+function resolveAuthorization(
+    authorization: PermissionLevel[],
+    signers: ReturnType<typeof normalizeSigners>,
+    custom: ReturnType<typeof customResolver>
+) {
+    const {signer, placeholders} = signers
+    return authorization.map((auth, i) => {
+        let {actor, permission} = auth
+        const other = placeholders.get(String(actor))
+        if (other) {
+            if (permission.equals(PlaceholderPermission) || permission.equals(actor)) {
+                permission = other.permission
+            }
+            return PermissionLevel.from({actor: other.actor, permission})
+        }
+        actor = custom.name(actor, `authorization.${i}.actor`) || actor
+        permission = custom.name(permission, `authorization.${i}.permission`) || permission
+        if (actor.equals(PlaceholderName)) {
+            actor = signer.actor
+        }
+        if (permission.equals(PlaceholderPermission)) {
+            permission = signer.permission
+        }
+        // backwards compatibility, actor placeholder will also resolve to permission when used in auth
+        if (permission.equals(PlaceholderName)) {
+            permission = signer.permission
+        }
+        return PermissionLevel.from({actor, permission})
+    })
+}
+
+function validateResolver(resolver: PlaceholderResolver) {
+    if (resolver.placeholder === undefined && resolver.type === undefined) {
+        throw new InvalidArgumentsError(
+            `Placeholder resolver ${resolver.name} needs a placeholder or type`
+        )
+    }
+    if (resolver.placeholder !== undefined) {
+        const placeholder = Name.from(resolver.placeholder)
+        if (placeholder.equals(PlaceholderName) || placeholder.equals(PlaceholderPermission)) {
+            throw new InvalidArgumentsError(`Placeholder ${placeholder} is reserved for the signer`)
+        }
+    }
+}
+
+/**
+ * Walk decoded action data using its ABI type and replace the values visit returns a value for.
+ * Visit is called with the value, its type name including aliases and its path.
+ */
+function resolveFields(
+    abi: ABI,
+    type: ABI.ResolvedType,
+    value: any,
+    path: string,
+    visit: (value: any, types: string[], path: string) => any
+): any {
+    if (value === null || value === undefined) {
+        return value
+    }
+    if (type.isArray) {
+        const element = abi.resolveType(type.name)
+        return (value as any[]).map((item, i) =>
+            resolveFields(abi, element, item, `${path}.${i}`, visit)
+        )
+    }
+    const types = [type.name]
+    while (type.ref) {
+        type = type.ref
+        types.push(type.name)
+    }
+    const replaced = visit(value, types, path)
+    if (replaced !== undefined) {
+        return replaced
+    }
+    if (type.isArray) {
+        return resolveFields(abi, type, value, path, visit)
+    }
+    const fields = type.allFields
+    if (fields) {
+        for (const field of fields) {
+            value[field.name] = resolveFields(
+                abi,
+                field.type,
+                value[field.name],
+                `${path}.${field.name}`,
+                visit
+            )
+        }
+    } else if (type.variant && Array.isArray(value)) {
+        const variant = type.variant.find((t) => t.typeName === value[0])
+        if (variant) {
+            value[1] = resolveFields(abi, variant, value[1], path, visit)
+        }
+    }
+    return value
+}
+
+function normalizeSigners(signers: PermissionLevelType | RequestSigners) {
+    if (typeof signers !== 'object' || !('signer' in signers)) {
+        return {
+            signer: PermissionLevel.from(signers),
+            placeholders: new Map<string, PermissionLevel>(),
+        }
+    }
+    const placeholders = new Map<string, PermissionLevel>()
+    for (const [name, signer] of Object.entries(signers.placeholders || {})) {
+        const placeholder = Name.from(name)
+        if (placeholder.equals(PlaceholderName) || placeholder.equals(PlaceholderPermission)) {
+            throw new InvalidArgumentsError(`Placeholder ${placeholder} is reserved for the signer`)
+        }
+        // only the reserved names, ............3 to ............j, can never be real accounts
+        if (!isPlaceholder(placeholder)) {
+            throw new InvalidArgumentsError(`${placeholder} is not a placeholder name`)
+        }
+        placeholders.set(String(placeholder), PermissionLevel.from(signer))
+    }
+    return {signer: PermissionLevel.from(signers.signer), placeholders}
+}
+
+/** Whether a name is one of the reserved placeholder names, `............1` to `............j`. */
+function isPlaceholder(name: Name) {
+    return name.value.gt(UInt64.from(0)) && name.value.lt(UInt64.from(16))
+}
+
+function isSignerSignatures(
+    signatures: SignatureType[] | SignerSignatures[]
+): signatures is SignerSignatures[] {
+    const first = signatures && signatures[0]
+    return typeof first === 'object' && first !== null && 'signatures' in first
+}
+
+function isUndecoded(action: ResolvedAction | UndecodedAction): action is UndecodedAction {
+    return (action as UndecodedAction).reason !== undefined
+}
+
 function isIdentity(action: AnyAction) {
     const account = Name.from(action.account)
     const name = Name.from(action.name)
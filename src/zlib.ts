@@ -0,0 +1,656 @@
+/**
+ * Raw DEFLATE (RFC 1951) compression and decompression, used when no zlib provider is given.
+ * Output is a standard raw deflate stream that can be inflated by any zlib implementation.
+ */
+
+import {InvalidRequestError} from './errors'
+
+import type {ZlibProvider} from './signing-request'
+
+/** Length code base values, for length codes 257..285. */
+const lengthBase = [
+    3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131,
+    163, 195, 227, 258,
+]
+const lengthExtra = [
+    0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0,
+]
+/** Distance code base values, for distance codes 0..29. */
+const distBase = [
+    1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049,
+    3073, 4097, 6145, 8193, 12289, 16385, 24577,
+]
+const distExtra = [
+    0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13,
+    13,
+]
+/** Order code length code lengths are stored in. */
+const codeLengthOrder = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15]
+
+/** Fixed huffman code lengths, built on first use to keep the module free of side effects. */
+let fixedLengths: {lit: Uint8Array; dist: Uint8Array} | undefined
+function fixed() {
+    if (!fixedLengths) {
+        const lit = new Uint8Array(288)
+        lit.fill(8, 0, 144)
+        lit.fill(9, 144, 256)
+        lit.fill(7, 256, 280)
+        lit.fill(8, 280, 288)
+        fixedLengths = {lit, dist: new Uint8Array(30).fill(5)}
+    }
+    return fixedLengths
+}
+
+// Inflate
+
+interface Huffman {
+    /** Number of codes of each length. */
+    count: Uint16Array
+    /** Symbols ordered by code. */
+    symbol: Uint16Array
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+    const count = new Uint16Array(16)
+    for (let i = 0; i < lengths.length; i++) {
+        count[lengths[i]]++
+    }
+    count[0] = 0
+    const offsets = new Uint16Array(16)
+    let left = 1
+    for (let len = 1; len < 16; len++) {
+        offsets[len] = offsets[len - 1] + count[len - 1]
+        left = (left << 1) - count[len]
+        if (left < 0) {
+            throw new InvalidRequestError('Invalid compressed data')
+        }
+    }
+    const symbol = new Uint16Array(lengths.length)
+    for (let i = 0; i < lengths.length; i++) {
+        if (lengths[i] !== 0) {
+            symbol[offsets[lengths[i]]++] = i
+        }
+    }
+    return {count, symbol}
+}
+
+class BitReader {
+    pos = 0
+    private bitBuf = 0
+    private bitCount = 0
+
+    constructor(private data: Uint8Array) {}
+
+    bits(n: number) {
+        while (this.bitCount < n) {
+            if (this.pos >= this.data.length) {
+                throw new InvalidRequestError('Unexpected end of compressed data')
+            }
+            this.bitBuf |= this.data[this.pos++] << this.bitCount
+            this.bitCount += 8
+        }
+        const value = this.bitBuf & ((1 << n) - 1)
+        this.bitBuf >>>= n
+        this.bitCount -= n
+        return value
+    }
+
+    align() {
+        this.bitBuf = 0
+        this.bitCount = 0
+    }
+
+    decode(h: Huffman) {
+        let code = 0
+        let first = 0
+        let index = 0
+        for (let len = 1; len < 16; len++) {
+            code |= this.bits(1)
+            const count = h.count[len]
+            if (code - first < count) {
+                return h.symbol[index + code - first]
+            }
+            index += count
+            first = (first + count) << 1
+            code <<= 1
+        }
+        throw new InvalidRequestError('Invalid compressed data')
+    }
+}
+
+class ByteWriter {
+    buf: Uint8Array
+    length = 0
+
+    constructor(size: number) {
+        this.buf = new Uint8Array(Math.max(size, 64))
+    }
+
+    ensure(n: number) {
+        if (this.length + n > this.buf.length) {
+            const buf = new Uint8Array(Math.max(this.buf.length * 2, this.length + n))
+            buf.set(this.buf.subarray(0, this.length))
+            this.buf = buf
+        }
+    }
+
+    byte(value: number) {
+        this.ensure(1)
+        this.buf[this.length++] = value
+    }
+
+    result() {
+        return this.buf.slice(0, this.length)
+    }
+}
+
+/**
+ * Decompress raw deflate data.
+ * @throws {InvalidRequestError} If the data is not a valid deflate stream.
+ */
+export function inflateRaw(data: Uint8Array): Uint8Array {
+    const input = new BitReader(data)
+    const out = new ByteWriter(data.length * 4)
+    let final = 0
+    while (!final) {
+        final = input.bits(1)
+        const type = input.bits(2)
+        if (type === 0) {
+            input.align()
+            if (input.pos + 4 > data.length) {
+                throw new InvalidRequestError('Unexpected end of compressed data')
+            }
+            const len = data[input.pos] | (data[input.pos + 1] << 8)
+            const nlen = data[input.pos + 2] | (data[input.pos + 3] << 8)
+            if (len !== (~nlen & 0xffff)) {
+                throw new InvalidRequestError('Invalid compressed data')
+            }
+            input.pos += 4
+            if (input.pos + len > data.length) {
+                throw new InvalidRequestError('Unexpected end of compressed data')
+            }
+            out.ensure(len)
+            out.buf.set(data.subarray(input.pos, input.pos + len), out.length)
+            out.length += len
+            input.pos += len
+            continue
+        }
+        let lit: Huffman
+        let dist: Huffman
+        if (type === 1) {
+            lit = buildHuffman(fixed().lit)
+            dist = buildHuffman(fixed().dist)
+        } else if (type === 2) {
+            const tables = readDynamicTables(input)
+            lit = tables[0]
+            dist = tables[1]
+        } else {
+            throw new InvalidRequestError('Invalid compressed data')
+        }
+        for (;;) {
+            const sym = input.decode(lit)
+            if (sym < 256) {
+                out.byte(sym)
+            } else if (sym === 256) {
+                break
+            } else {
+                const l = sym - 257
+                if (l >= 29) {
+                    throw new InvalidRequestError('Invalid compressed data')
+                }
+                const len = lengthBase[l] + input.bits(lengthExtra[l])
+                const d = input.decode(dist)
+                if (d >= 30) {
+                    throw new InvalidRequestError('Invalid compressed data')
+                }
+                const distance = distBase[d] + input.bits(distExtra[d])
+                if (distance > out.length) {
+                    throw new InvalidRequestError('Invalid compressed data')
+                }
+                out.ensure(len)
+                // byte by byte since the source and destination may overlap
+                for (let i = 0; i < len; i++) {
+                    out.buf[out.length] = out.buf[out.length - distance]
+                    out.length++
+                }
+            }
+        }
+    }
+    return out.result()
+}
+
+function readDynamicTables(input: BitReader): [Huffman, Huffman] {
+    const nlen = input.bits(5) + 257
+    const ndist = input.bits(5) + 1
+    const ncode = input.bits(4) + 4
+    if (nlen > 286 || ndist > 30) {
+        throw new InvalidRequestError('Invalid compressed data')
+    }
+    const codeLengths = new Uint8Array(19)
+    for (let i = 0; i < ncode; i++) {
+        codeLengths[codeLengthOrder[i]] = input.bits(3)
+    }
+    const codeLengthCode = buildHuffman(codeLengths)
+    const lengths = new Uint8Array(nlen + ndist)
+    let i = 0
+    while (i < nlen + ndist) {
+        const sym = input.decode(codeLengthCode)
+        if (sym < 16) {
+            lengths[i++] = sym
+            continue
+        }
+        let value = 0
+        let repeat: number
+        if (sym === 16) {
+            if (i === 0) {
+                throw new InvalidRequestError('Invalid compressed data')
+            }
+            value = lengths[i - 1]
+            repeat = 3 + input.bits(2)
+        } else if (sym === 17) {
+            repeat = 3 + input.bits(3)
+        } else {
+            repeat = 11 + input.bits(7)
+        }
+        if (i + repeat > nlen + ndist) {
+            throw new InvalidRequestError('Invalid compressed data')
+        }
+        lengths.fill(value, i, i + repeat)
+        i += repeat
+    }
+    if (lengths[256] === 0) {
+        throw new InvalidRequestError('Invalid compressed data')
+    }
+    return [buildHuffman(lengths.subarray(0, nlen)), buildHuffman(lengths.subarray(nlen))]
+}
+
+// Deflate
+
+const windowSize = 32768
+const hashBits = 15
+const maxMatch = 258
+const maxChain = 1024
+/** Blocks are flushed after this many symbols. */
+const blockSymbols = 16384
+
+class BitWriter extends ByteWriter {
+    private bitBuf = 0
+    private bitCount = 0
+
+    bits(value: number, n: number) {
+        this.bitBuf |= value << this.bitCount
+        this.bitCount += n
+        while (this.bitCount >= 8) {
+            this.byte(this.bitBuf & 0xff)
+            this.bitBuf >>>= 8
+            this.bitCount -= 8
+        }
+    }
+
+    align() {
+        if (this.bitCount > 0) {
+            this.byte(this.bitBuf & 0xff)
+        }
+        this.bitBuf = 0
+        this.bitCount = 0
+    }
+}
+
+/**
+ * Optimal length limited code lengths using the package-merge algorithm.
+ * A single used symbol is paired with an unused one since a complete code is required.
+ */
+function codeLengths(freqs: ArrayLike<number>, limit: number): Uint8Array {
+    const lengths = new Uint8Array(freqs.length)
+    const leaves: {weight: number; symbols: number[]}[] = []
+    for (let i = 0; i < freqs.length; i++) {
+        if (freqs[i] > 0) {
+            leaves.push({weight: freqs[i], symbols: [i]})
+        }
+    }
+    if (leaves.length === 0) {
+        return lengths
+    }
+    if (leaves.length === 1) {
+        const sym = leaves[0].symbols[0]
+        lengths[sym] = 1
+        lengths[sym === 0 ? 1 : 0] = 1
+        return lengths
+    }
+    leaves.sort((a, b) => a.weight - b.weight)
+    let list = leaves
+    for (let level = 1; level < limit; level++) {
+        const packages: typeof leaves = []
+        for (let i = 0; i + 1 < list.length; i += 2) {
+            packages.push({
+                weight: list[i].weight + list[i + 1].weight,
+                symbols: list[i].symbols.concat(list[i + 1].symbols),
+            })
+        }
+        const merged: typeof leaves = []
+        let a = 0
+        let b = 0
+        while (a < leaves.length || b < packages.length) {
+            if (
+                b >= packages.length ||
+                (a < leaves.length && leaves[a].weight <= packages[b].weight)
+            ) {
+                merged.push(leaves[a++])
+            } else {
+                merged.push(packages[b++])
+            }
+        }
+        list = merged
+    }
+    for (let i = 0; i < 2 * leaves.length - 2; i++) {
+        for (const sym of list[i].symbols) {
+            lengths[sym]++
+        }
+    }
+    return lengths
+}
+
+/** Canonical codes for code lengths, bit reversed for writing LSB first. */
+function canonicalCodes(lengths: Uint8Array): Uint16Array {
+    const count = new Uint16Array(16)
+    for (const len of lengths) {
+        count[len]++
+    }
+    count[0] = 0
+    const next = new Uint16Array(16)
+    let code = 0
+    for (let len = 1; len < 16; len++) {
+        code = (code + count[len - 1]) << 1
+        next[len] = code
+    }
+    const codes = new Uint16Array(lengths.length)
+    for (let i = 0; i < lengths.length; i++) {
+        const len = lengths[i]
+        if (len) {
+            let c = next[len]++
+            let reversed = 0
+            for (let j = 0; j < len; j++) {
+                reversed = (reversed << 1) | (c & 1)
+                c >>= 1
+            }
+            codes[i] = reversed
+        }
+    }
+    return codes
+}
+
+function lengthCode(len: number) {
+    let code = 28
+    while (lengthBase[code] > len) {
+        code--
+    }
+    return code
+}
+
+function distCode(dist: number) {
+    let code = 29
+    while (distBase[code] > dist) {
+        code--
+    }
+    return code
+}
+
+/** An LZ77 symbol, either a literal or a length/distance pair. */
+interface Block {
+    /** Literal bytes or length codes (257..285). */
+    lit: Uint16Array
+    /** Length code extra bits, or distance for matches. */
+    litExtra: Uint16Array
+    dist: Uint16Array
+    distExtra: Uint16Array
+    size: number
+    /** Start and end of the input covered by the block. */
+    start: number
+    end: number
+}
+
+/** Compress data to a raw deflate stream. */
+export function deflateRaw(data: Uint8Array): Uint8Array {
+    const out = new BitWriter(data.length / 2 + 64)
+    const head = new Int32Array(1 << hashBits).fill(-1)
+    const prev = new Int32Array(windowSize)
+    const n = data.length
+    const hash = (i: number) =>
+        ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & ((1 << hashBits) - 1)
+    const insert = (i: number) => {
+        if (i + 2 < n) {
+            const h = hash(i)
+            prev[i & (windowSize - 1)] = head[h]
+            head[h] = i
+        }
+    }
+    let matchDist = 0
+    const findMatch = (i: number) => {
+        let best = 0
+        if (i + 2 >= n) {
+            return best
+        }
+        const limit = Math.min(maxMatch, n - i)
+        let candidate = head[hash(i)]
+        let chain = maxChain
+        while (candidate >= 0 && i - candidate <= windowSize && chain-- > 0) {
+            if (data[candidate + best] === data[i + best]) {
+                let len = 0
+                while (len < limit && data[candidate + len] === data[i + len]) {
+                    len++
+                }
+                if (len > best) {
+                    best = len
+                    matchDist = i - candidate
+                    if (len >= limit) {
+                        break
+                    }
+                }
+            }
+            const next = prev[candidate & (windowSize - 1)]
+            if (next >= candidate) {
+                break
+            }
+            candidate = next
+        }
+        // short matches far away are cheaper as literals
+        if (best < 3 || (best === 3 && matchDist > 4096)) {
+            return 0
+        }
+        return best
+    }
+    const newBlock = (start: number): Block => ({
+        lit: new Uint16Array(blockSymbols),
+        litExtra: new Uint16Array(blockSymbols),
+        dist: new Uint16Array(blockSymbols),
+        distExtra: new Uint16Array(blockSymbols),
+        size: 0,
+        start,
+        end: start,
+    })
+    let block = newBlock(0)
+    const push = (lit: number, litExtra: number, dist: number, distExtra: number) => {
+        block.lit[block.size] = lit
+        block.litExtra[block.size] = litExtra
+        block.dist[block.size] = dist
+        block.distExtra[block.size] = distExtra
+        block.size++
+    }
+    let i = 0
+    while (i < n) {
+        let len = findMatch(i)
+        const dist = matchDist
+        insert(i)
+        // lazy matching, emit a literal if the next position has a longer match
+        if (len > 0 && len < 32 && findMatch(i + 1) > len) {
+            len = 0
+        }
+        if (len > 0) {
+            const lc = lengthCode(len)
+            const dc = distCode(dist)
+            push(257 + lc, len - lengthBase[lc], dc, dist - distBase[dc])
+            for (let k = 1; k < len; k++) {
+                insert(i + k)
+            }
+            i += len
+        } else {
+            push(data[i], 0, 0, 0)
+            i++
+        }
+        if (block.size === blockSymbols) {
+            block.end = i
+            writeBlock(out, block, data, false)
+            block = newBlock(i)
+        }
+    }
+    block.end = n
+    writeBlock(out, block, data, true)
+    out.align()
+    return out.result()
+}
+
+function writeBlock(out: BitWriter, block: Block, data: Uint8Array, final: boolean) {
+    const litFreq = new Uint16Array(286)
+    const distFreq = new Uint16Array(30)
+    litFreq[256] = 1
+    for (let i = 0; i < block.size; i++) {
+        litFreq[block.lit[i]]++
+        if (block.lit[i] > 256) {
+            distFreq[block.dist[i]]++
+        }
+    }
+    if (distFreq.every((freq) => freq === 0)) {
+        // some inflaters reject an empty distance code
+        distFreq[0] = 1
+    }
+    const litLengths = codeLengths(litFreq, 15)
+    const distLengths = codeLengths(distFreq, 15)
+    let nlit = 286
+    while (nlit > 257 && litLengths[nlit - 1] === 0) {
+        nlit--
+    }
+    let ndist = 30
+    while (ndist > 1 && distLengths[ndist - 1] === 0) {
+        ndist--
+    }
+    // run length encode the code lengths
+    const all = new Uint8Array(nlit + ndist)
+    all.set(litLengths.subarray(0, nlit))
+    all.set(distLengths.subarray(0, ndist), nlit)
+    const rle: [number, number][] = []
+    for (let i = 0; i < all.length; ) {
+        const value = all[i]
+        let run = 1
+        while (i + run < all.length && all[i + run] === value) {
+            run++
+        }
+        i += run
+        if (value === 0) {
+            while (run >= 11) {
+                const r = Math.min(run, 138)
+                rle.push([18, r - 11])
+                run -= r
+            }
+            if (run >= 3) {
+                rle.push([17, run - 3])
+                run = 0
+            }
+        } else {
+            rle.push([value, 0])
+            run--
+            while (run >= 3) {
+                const r = Math.min(run, 6)
+                rle.push([16, r - 3])
+                run -= r
+            }
+        }
+        while (run-- > 0) {
+            rle.push([value, 0])
+        }
+    }
+    const clFreq = new Uint16Array(19)
+    for (const [sym] of rle) {
+        clFreq[sym]++
+    }
+    const clLengths = codeLengths(clFreq, 7)
+    let ncl = 19
+    while (ncl > 4 && clLengths[codeLengthOrder[ncl - 1]] === 0) {
+        ncl--
+    }
+
+    // pick the smallest block type
+    const symbolBits = (lit: Uint8Array, dist: Uint8Array) => {
+        let bits = lit[256]
+        for (let i = 0; i < block.size; i++) {
+            const sym = block.lit[i]
+            bits += lit[sym]
+            if (sym > 256) {
+                bits += lengthExtra[sym - 257] + dist[block.dist[i]] + distExtra[block.dist[i]]
+            }
+        }
+        return bits
+    }
+    let dynamicBits = 14 + ncl * 3 + symbolBits(litLengths, distLengths)
+    for (const [sym] of rle) {
+        dynamicBits += clLengths[sym] + (sym === 16 ? 2 : sym === 17 ? 3 : sym === 18 ? 7 : 0)
+    }
+    const fixedBits = symbolBits(fixed().lit, fixed().dist)
+    const length = block.end - block.start
+    const storedBits = (Math.ceil(length / 0xffff) || 1) * 40 + length * 8
+
+    if (storedBits <= fixedBits && storedBits <= dynamicBits) {
+        let pos = block.start
+        do {
+            const len = Math.min(0xffff, block.end - pos)
+            out.bits(final && pos + len === block.end ? 1 : 0, 1)
+            out.bits(0, 2)
+            out.align()
+            out.bits(len, 16)
+            out.bits(~len & 0xffff, 16)
+            out.ensure(len)
+            out.buf.set(data.subarray(pos, pos + len), out.length)
+            out.length += len
+            pos += len
+        } while (pos < block.end)
+        return
+    }
+    out.bits(final ? 1 : 0, 1)
+    let lit = litLengths
+    let dist = distLengths
+    if (fixedBits <= dynamicBits) {
+        out.bits(1, 2)
+        lit = fixed().lit
+        dist = fixed().dist
+    } else {
+        out.bits(2, 2)
+        out.bits(nlit - 257, 5)
+        out.bits(ndist - 1, 5)
+        out.bits(ncl - 4, 4)
+        for (let i = 0; i < ncl; i++) {
+            out.bits(clLengths[codeLengthOrder[i]], 3)
+        }
+        const clCodes = canonicalCodes(clLengths)
+        for (const [sym, extra] of rle) {
+            out.bits(clCodes[sym], clLengths[sym])
+            if (sym >= 16) {
+                out.bits(extra, sym === 16 ? 2 : sym === 17 ? 3 : 7)
+            }
+        }
+    }
+    const litCodes = canonicalCodes(lit)
+    const distCodes = canonicalCodes(dist)
+    for (let i = 0; i < block.size; i++) {
+        const sym = block.lit[i]
+        out.bits(litCodes[sym], lit[sym])
+        if (sym > 256) {
+            out.bits(block.litExtra[i], lengthExtra[sym - 257])
+            const d = block.dist[i]
+            out.bits(distCodes[d], dist[d])
+            out.bits(block.distExtra[i], distExtra[d])
+        }
+    }
+    out.bits(litCodes[256], lit[256])
+}
+
+/** Zlib provider using the built-in deflate implementation, the default zlib of requests. */
+export const BuiltinZlib: ZlibProvider = {deflateRaw, inflateRaw}
@@ -0,0 +1,188 @@
+import {strict as assert} from 'assert'
+import {readFileSync as readfile} from 'fs'
+import {join as joinPath} from 'path'
+import 'mocha'
+import {ABI, Blob, Bytes, Name} from '@wharfkit/antelope'
+
+import mockAbiProvider from './utils/mock-abi-provider'
+import zlib from './utils/node-zlib-provider'
+
+import {
+    AbiCacheEntry,
+    abiHash,
+    AbiHashMismatchError,
+    AbiProvider,
+    CachingAbiProvider,
+    ErrorCode,
+    SigningRequest,
+} from '../src'
+
+class CountingProvider implements AbiProvider {
+    calls: string[] = []
+    async getAbi(account: Name) {
+        this.calls.push(String(account))
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        return mockAbiProvider.getAbi(account)
+    }
+}
+
+const tokenAbi = mockAbiProvider.abis.get('eosio.token')
+
+describe('abi cache', function () {
+    it('should cache and deduplicate', async function () {
+        const upstream = new CountingProvider()
+        const provider = new CachingAbiProvider(upstream)
+        const abis = await Promise.all([
+            provider.getAbi(Name.from('eosio.token')),
+            provider.getAbi(Name.from('eosio.token')),
+        ])
+        assert.deepStrictEqual(upstream.calls, ['eosio.token'])
+        assert.ok(ABI.from(abis[0]).equals(ABI.from(tokenAbi)))
+        const request = await SigningRequest.create(
+            {
+                action: {
+                    account: 'eosio.token',
+                    name: 'transfer',
+                    authorization: [{actor: 'foo', permission: 'active'}],
+                    data: {from: 'foo', to: 'bar', quantity: '1.000 EOS', memo: ''},
+                },
+            },
+            {abiProvider: provider, zlib}
+        )
+        await request.fetchAbis()
+        assert.deepStrictEqual(upstream.calls, ['eosio.token'])
+        await provider.invalidate('eosio.token')
+        await provider.getAbi(Name.from('eosio.token'))
+        assert.equal(upstream.calls.length, 2)
+    })
+
+    it('should expire and evict entries', async function () {
+        const upstream = new CountingProvider()
+        let time = 0
+        const provider = new CachingAbiProvider(upstream, {
+            ttl: 1000,
+            maxEntries: 1,
+            now: () => time,
+        })
+        await provider.getAbi(Name.from('eosio.token'))
+        time = 999
+        await provider.getAbi(Name.from('eosio.token'))
+        assert.equal(upstream.calls.length, 1)
+        time = 1000
+        await provider.getAbi(Name.from('eosio.token'))
+        assert.equal(upstream.calls.length, 2)
+        await assert.rejects(provider.getAbi(Name.from('foo')), /Missing ABI definition for foo/)
+        // failed fetches are not cached
+        await assert.rejects(provider.getAbi(Name.from('foo')))
+        assert.deepStrictEqual(upstream.calls.slice(2), ['foo', 'foo'])
+    })
+
+    it('should use persistent store', async function () {
+        const stored = new Map<string, AbiCacheEntry>()
+        const store = {
+            get: async (key: string) => stored.get(key),
+            set: async (key: string, entry: AbiCacheEntry) => {
+                stored.set(key, JSON.parse(JSON.stringify(entry)))
+            },
+            delete: (key: string) => {
+                stored.delete(key)
+            },
+        }
+        const upstream = new CountingProvider()
+        const first = new CachingAbiProvider(upstream, {store, prefix: 'eos:'})
+        await first.getAbi(Name.from('eosio.token'))
+        assert.deepStrictEqual(Array.from(stored.keys()), ['eos:eosio.token'])
+        assert.equal(stored.get('eos:eosio.token')!.hash, abiHash(tokenAbi).hexString)
+        const second = new CachingAbiProvider(upstream, {store, prefix: 'eos:'})
+        await second.getAbi(Name.from('eosio.token'))
+        assert.equal(upstream.calls.length, 1)
+        const failing = new CachingAbiProvider(upstream, {
+            store: {
+                get: () => {
+                    throw new Error('boom')
+                },
+                set: () => Promise.reject(new Error('boom')),
+                delete: () => undefined,
+            },
+        })
+        await failing.getAbi(Name.from('eosio.token'))
+        assert.equal(upstream.calls.length, 2)
+    })
+
+    it('should verify pinned hashes', async function () {
+        const hash = abiHash(tokenAbi)
+        const tampered = ABI.from(JSON.parse(JSON.stringify(tokenAbi)))
+        tampered.structs[0].fields[0].name = 'evil'
+        const stored = new Map<string, AbiCacheEntry>([
+            [
+                'eosio.token',
+                {abi: JSON.parse(JSON.stringify(tampered)), hash: hash.hexString, fetched: 0},
+            ],
+        ])
+        const store = {
+            get: (key: string) => stored.get(key),
+            set: (key: string, entry: AbiCacheEntry) => {
+                stored.set(key, entry)
+            },
+            delete: (key: string) => {
+                stored.delete(key)
+            },
+        }
+        const upstream = new CountingProvider()
+        const provider = new CachingAbiProvider(upstream, {
+            store,
+            hashes: {'eosio.token': hash},
+            ttl: 0,
+        })
+        // tampered entry in store is refetched, pinned entries are not subject to ttl
+        const abi = await provider.getAbi(Name.from('eosio.token'))
+        assert.ok(abiHash(abi).equals(hash))
+        await provider.getAbi(Name.from('eosio.token'))
+        assert.equal(upstream.calls.length, 1)
+        provider.pin('eosio.token', '00'.repeat(32))
+        await assert.rejects(provider.getAbi(Name.from('eosio.token')), (error: unknown) => {
+            assert.ok(error instanceof AbiHashMismatchError)
+            assert.equal(error.code, ErrorCode.ABI_HASH_MISMATCH)
+            assert.ok(error.actual.equals(hash))
+            return true
+        })
+        provider.unpin('eosio.token')
+        await provider.getAbi(Name.from('eosio.token'))
+    })
+
+    it('should hash binary abis as returned by get_raw_abi', async function () {
+        // eosio::abi/1.1 without the action_results section, as set on chain by older clients
+        const response = JSON.parse(
+            readfile(joinPath(__dirname, 'fixtures/eosio.token.raw_abi.json')).toString('utf8')
+        )
+        const raw = Blob.from(response.abi)
+        assert.equal(abiHash(raw).hexString, response.abi_hash)
+        assert.equal(abiHash(Bytes.from(raw.array)).hexString, response.abi_hash)
+        // re-serializing adds the missing section
+        assert.notEqual(abiHash(ABI.from(raw)).hexString, response.abi_hash)
+        const stored = new Map<string, AbiCacheEntry>()
+        const store = {
+            get: (key: string) => stored.get(key),
+            set: (key: string, entry: AbiCacheEntry) => {
+                stored.set(key, entry)
+            },
+            delete: (key: string) => {
+                stored.delete(key)
+            },
+        }
+        let calls = 0
+        const upstream = {
+            getAbi: async () => {
+                calls++
+                return raw
+            },
+        }
+        const options = {store, hashes: {'eosio.token': response.abi_hash}}
+        const abi = await new CachingAbiProvider(upstream, options).getAbi(Name.from('eosio.token'))
+        assert.ok(ABI.from(abi).equals(tokenAbi))
+        assert.equal(stored.get('eosio.token')!.raw, Bytes.from(raw.array).hexString)
+        // stored binary abis are verified against the pinned hash
+        await new CachingAbiProvider(upstream, options).getAbi(Name.from('eosio.token'))
+        assert.equal(calls, 1)
+    })
+})
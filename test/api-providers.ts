@@ -0,0 +1,113 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {ABI, APIClient, Name} from '@wharfkit/antelope'
+
+import {MockAPIProvider, mockInfo} from './utils/mock-api-provider'
+import zlib from './utils/node-zlib-provider'
+
+import {
+    APIAbiProvider,
+    APIContextProvider,
+    ChainMismatchError,
+    ChainName,
+    ErrorCode,
+    MissingAbiError,
+    PlaceholderAuth,
+    PlaceholderName,
+    SigningRequest,
+} from '../src'
+
+function createClient(info = mockInfo) {
+    const provider = new MockAPIProvider(info)
+    return {provider, client: new APIClient({provider})}
+}
+
+describe('api providers', function () {
+    it('should fetch abis', async function () {
+        const {provider, client} = createClient()
+        const raw = ABI.from(await new APIAbiProvider(client).getAbi(Name.from('eosio.token')))
+        const json = await new APIAbiProvider(client, {raw: false}).getAbi(Name.from('eosio.token'))
+        assert.deepStrictEqual(provider.calls, ['/v1/chain/get_raw_abi', '/v1/chain/get_abi'])
+        assert.ok(raw.equals(json))
+        assert.ok(raw.getActionType('transfer'))
+        for (const abiProvider of [
+            new APIAbiProvider(client),
+            new APIAbiProvider(client, {raw: false}),
+        ]) {
+            await assert.rejects(abiProvider.getAbi(Name.from('foo')), (error: unknown) => {
+                assert.ok(error instanceof MissingAbiError)
+                assert.equal(error.code, ErrorCode.MISSING_ABI)
+                return true
+            })
+        }
+    })
+
+    it('should provide transaction context', async function () {
+        const {client} = createClient()
+        const context = await new APIContextProvider(client, {expireSeconds: 30}).getContext()
+        assert.deepStrictEqual(JSON.parse(JSON.stringify(context)), {
+            expiration: '2018-02-15T00:00:30',
+            ref_block_num: 70000 & 0xffff,
+            ref_block_prefix: 0xbea5e31d,
+            chainId: mockInfo.chain_id,
+        })
+    })
+
+    it('should resolve with providers', async function () {
+        const {provider, client} = createClient()
+        const providers = {
+            abiProvider: new APIAbiProvider(client),
+            contextProvider: new APIContextProvider(client),
+        }
+        const request = await SigningRequest.create(
+            {
+                action: {
+                    account: 'eosio.token',
+                    name: 'transfer',
+                    authorization: [PlaceholderAuth],
+                    data: {from: PlaceholderName, to: 'bar', quantity: '1.000 EOS', memo: ''},
+                },
+            },
+            {abiProvider: providers.abiProvider, zlib}
+        )
+        const resolved = await request.resolveWith(providers, {actor: 'foo', permission: 'active'})
+        assert.equal(String(resolved.transaction.expiration), '2018-02-15T00:01:00')
+        assert.equal(Number(resolved.transaction.ref_block_num), 70000 & 0xffff)
+        assert.equal(Number(resolved.transaction.ref_block_prefix), 0xbea5e31d)
+        assert.equal(String(resolved.resolvedTransaction.actions[0].data.from), 'foo')
+        assert.equal(provider.calls.filter((p) => p === '/v1/chain/get_info').length, 1)
+
+        // explicit context takes precedence
+        const explicit = await request.resolveWith(
+            providers,
+            {actor: 'foo', permission: 'active'},
+            {expiration: '2020-01-01T00:00:00'}
+        )
+        assert.equal(String(explicit.transaction.expiration), '2020-01-01T00:00:00')
+
+        // multi-chain requests resolve for the chain of the context provider
+        const multi = SigningRequest.identity(
+            {
+                chainId: null,
+                chainIds: [ChainName.EOS, ChainName.TELOS],
+                scope: 'foo',
+                callback: 'https://example.com',
+            },
+            {zlib}
+        )
+        const identity = await multi.resolveWith(providers, {actor: 'foo', permission: 'active'})
+        assert.equal(identity.chainId.chainName, ChainName.EOS)
+
+        const other = createClient({...mockInfo, chain_id: '00'.repeat(32)}).client
+        await assert.rejects(
+            request.resolveWith(
+                {
+                    abiProvider: providers.abiProvider,
+                    contextProvider: new APIContextProvider(other),
+                },
+                {actor: 'foo', permission: 'active'}
+            ),
+            ChainMismatchError
+        )
+    })
+})
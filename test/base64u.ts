@@ -0,0 +1,52 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {Base64u, CorruptedPayloadError, ErrorCode, SigningRequest} from '../src'
+
+function assertCorrupted(fn: () => unknown, message: RegExp, position?: number) {
+    assert.throws(fn, (error: unknown) => {
+        assert.ok(error instanceof CorruptedPayloadError)
+        assert.equal(error.code, ErrorCode.CORRUPTED_PAYLOAD)
+        assert.match(error.message, message)
+        assert.equal(error.position, position)
+        return true
+    })
+}
+
+describe('base64u', function () {
+    it('should decode exactly sized output', function () {
+        for (let length = 0; length < 10; length++) {
+            const data = new Uint8Array(length).map((_, i) => i * 37 + 200)
+            const encoded = Base64u.encode(data)
+            assert.deepStrictEqual(Base64u.decode(encoded, true), data)
+            const padded = Base64u.encode(data, false).padEnd(Math.ceil(length / 3) * 4, '=')
+            assert.deepStrictEqual(Base64u.decode(padded, true), data)
+        }
+    })
+
+    it('should reject invalid input in strict mode', function () {
+        assertCorrupted(() => Base64u.decode('AAAA AAA', true), /character " " at position 4/, 4)
+        assertCorrupted(() => Base64u.decode('AAAAé', true), /character "é" at position 4/, 4)
+        assertCorrupted(() => Base64u.decode('AA=A', true), /character "=" at position 2/, 2)
+        assertCorrupted(() => Base64u.decode('AAA==', true), /padding/, 3)
+        assertCorrupted(() => Base64u.decode('AA===', true), /padding/, 2)
+        assertCorrupted(() => Base64u.decode('AAAAA', true), /Truncated/, 5)
+        // lenient by default
+        assert.equal(Base64u.decode('AAAA AAA').length, 6)
+    })
+
+    it('should report corrupted request payloads', function () {
+        const request = SigningRequest.identity({scope: 'foo', callback: 'https://example.com'})
+        const payload = Base64u.encode(request.getEncodedData())
+        const length = payload.length - (payload.length % 4) - 3
+        assertCorrupted(
+            () => SigningRequest.from('esr:' + payload.slice(0, length)),
+            /Truncated/,
+            length
+        )
+        for (const compress of [true, false]) {
+            const uri = request.encode(compress)
+            assertCorrupted(() => SigningRequest.from(uri.slice(0, -8)), /^Corrupted payload: /)
+        }
+    })
+})
@@ -0,0 +1,254 @@
+import {strict as assert} from 'assert'
+import {createServer, IncomingMessage, Server, ServerResponse} from 'http'
+import {AddressInfo} from 'net'
+import 'mocha'
+
+import fetch from './utils/node-http-fetch'
+
+import {
+    CallbackDispatcher,
+    ErrorCode,
+    getCallbackSignatures,
+    InvalidCallbackPayloadError,
+    parseCallbackPayload,
+    ResolvedCallback,
+    verifyCallbackPayload,
+} from '../src'
+
+interface ReceivedRequest {
+    method: string
+    url: string
+    body: string
+    contentType?: string
+}
+
+describe('callback dispatcher', function () {
+    let server: Server
+    let baseUrl: string
+    let received: ReceivedRequest[]
+    let handler: (req: IncomingMessage, res: ServerResponse) => void
+
+    before(function (done) {
+        server = createServer((req, res) => {
+            let body = ''
+            req.on('data', (chunk) => (body += chunk))
+            req.on('end', () => {
+                received.push({
+                    method: req.method!,
+                    url: req.url!,
+                    body,
+                    contentType: req.headers['content-type'],
+                })
+                handler(req, res)
+            })
+        })
+        server.listen(0, '127.0.0.1', () => {
+            baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+            done()
+        })
+    })
+
+    after(function (done) {
+        server.close(done)
+    })
+
+    beforeEach(function () {
+        received = []
+        handler = (req, res) => res.end('ok')
+    })
+
+    const payload = {
+        sig: 'SIG_K1_K4nkCupUx3hDXSHq4rhGPpDMPPPjJyvmF3M6j7ppYUzkR3L93endwnxf3YhJSG4SSvxxU1ytD8hj39kukTeYxjwy5H3XNJ',
+        tx: 'b8e921a7b68d7309847e633d74963f25eb5a7d0b15b1aceb143723c234686a8d',
+        rbn: '0',
+        rid: '0',
+        ex: '2020-07-10T08:40:20',
+        req: 'esr://AwAAAwAAAAAAAChdAAAVbXlhcHA6Ly9sb2dpbj17e2NpZH19AQljaGFpbl9pZHMFAgABAAo',
+        sa: 'foo',
+        sp: 'active',
+    }
+
+    function callback(path: string, background: boolean): ResolvedCallback {
+        return {url: baseUrl + path, background, payload}
+    }
+
+    it('should post background callbacks', async function () {
+        const dispatcher = new CallbackDispatcher({fetch})
+        const result = await dispatcher.dispatch(callback('/cb?tx=123', true))
+        assert.deepEqual(result, {
+            delivered: true,
+            method: 'POST',
+            url: baseUrl + '/cb?tx=123',
+            attempts: 1,
+            status: 200,
+            error: undefined,
+        })
+        assert.equal(received.length, 1)
+        assert.equal(received[0].method, 'POST')
+        assert.equal(received[0].url, '/cb?tx=123')
+        assert.equal(received[0].contentType, 'application/json')
+        assert.deepEqual(JSON.parse(received[0].body), payload)
+    })
+
+    it('should get foreground callbacks without opener', async function () {
+        const dispatcher = new CallbackDispatcher({fetch})
+        const result = await dispatcher.dispatch(callback('/cb', false))
+        assert.equal(result.delivered, true)
+        assert.equal(result.method, 'GET')
+        assert.equal(received[0].method, 'GET')
+    })
+
+    it('should open foreground and custom scheme callbacks', async function () {
+        const opened: string[] = []
+        const dispatcher = new CallbackDispatcher({
+            fetch,
+            opener: (url) => {
+                opened.push(url)
+            },
+        })
+        const result = await dispatcher.dispatch(callback('/cb', false))
+        assert.equal(result.delivered, true)
+        assert.equal(result.method, 'open')
+        const custom = await dispatcher.dispatch({
+            url: 'myapp://login',
+            background: true,
+            payload,
+        })
+        assert.equal(custom.delivered, true)
+        assert.deepEqual(opened, [baseUrl + '/cb', 'myapp://login'])
+        assert.equal(received.length, 0)
+        const noOpener = await new CallbackDispatcher({fetch}).dispatch({
+            url: 'myapp://login',
+            background: true,
+            payload,
+        })
+        assert.equal(noOpener.delivered, false)
+        assert.equal(noOpener.error!.code, ErrorCode.CALLBACK_DELIVERY)
+    })
+
+    it('should retry with backoff', async function () {
+        let count = 0
+        handler = (req, res) => {
+            res.statusCode = ++count < 3 ? 503 : 200
+            res.end()
+        }
+        const dispatcher = new CallbackDispatcher({fetch, retries: 3, retryDelay: 5})
+        const result = await dispatcher.dispatch(callback('/cb', true))
+        assert.equal(result.delivered, true)
+        assert.equal(result.attempts, 3)
+        assert.equal(received.length, 3)
+    })
+
+    it('should not retry client errors', async function () {
+        handler = (req, res) => {
+            res.statusCode = 404
+            res.end()
+        }
+        const dispatcher = new CallbackDispatcher({fetch, retries: 3, retryDelay: 5})
+        const result = await dispatcher.dispatch(callback('/cb', true))
+        assert.equal(result.delivered, false)
+        assert.equal(result.attempts, 1)
+        assert.equal(result.status, 404)
+        assert.equal(result.error!.status, 404)
+    })
+
+    it('should time out', async function () {
+        handler = (req, res) => {
+            setTimeout(() => res.end(), 200)
+        }
+        const dispatcher = new CallbackDispatcher({fetch, retries: 1, retryDelay: 5, timeout: 20})
+        const result = await dispatcher.dispatch(callback('/cb', true))
+        assert.equal(result.delivered, false)
+        assert.equal(result.attempts, 2)
+        assert.equal(result.status, undefined)
+        assert.ok(result.error)
+    })
+
+    it('should forward through proxy', async function () {
+        const dispatcher = new CallbackDispatcher({fetch, proxy: `${baseUrl}/redirect/{{URL}}`})
+        const result = await dispatcher.dispatch({
+            url: 'https://example.com/signup?tx=ef82',
+            background: true,
+            payload,
+        })
+        assert.equal(result.delivered, true)
+        assert.equal(
+            received[0].url,
+            '/redirect/' + encodeURIComponent('https://example.com/signup?tx=ef82')
+        )
+        assert.equal(dispatcher.proxyUrl('myapp://foo'), `${baseUrl}/redirect/myapp%3A%2F%2Ffoo`)
+    })
+})
+
+describe('callback payload', function () {
+    const payload = {
+        sig: 'SIG_K1_K4nkCupUx3hDXSHq4rhGPpDMPPPjJyvmF3M6j7ppYUzkR3L93endwnxf3YhJSG4SSvxxU1ytD8hj39kukTeYxjwy5H3XNJ',
+        tx: 'b8e921a7b68d7309847e633d74963f25eb5a7d0b15b1aceb143723c234686a8d',
+        rbn: '0',
+        rid: '0',
+        ex: '2020-07-10T08:40:20',
+        req: 'esr://AwAAAwAAAAAAAChdAAAVbXlhcHA6Ly9sb2dpbj17e2NpZH19AQljaGFpbl9pZHMFAgABAAo',
+        sa: 'foo',
+        sp: 'active',
+        cid: '1064487b3cd1a897ce03ae5b6a865651747e2e152090f99c1d19d44e01aea5a4',
+    }
+    const otherSig =
+        'SIG_K1_KBub1qmdiPpWA2XKKEZEG3EfKJBf38GETHzbd4t3CBdWLgdvFRLCqbcUsBbbYga6jmxfdSFfodMdhMYraKLhEzjSCsiuMs'
+
+    function expectInvalid(fn: () => any, field?: string) {
+        assert.throws(fn, (error: any) => {
+            assert.ok(error instanceof InvalidCallbackPayloadError)
+            assert.equal(error.field, field)
+            return true
+        })
+    }
+
+    it('should parse json, query strings and search params', function () {
+        assert.deepEqual(parseCallbackPayload(payload), payload)
+        assert.deepEqual(parseCallbackPayload(JSON.stringify(payload)), payload)
+        const query = new URLSearchParams(payload).toString()
+        assert.deepEqual(parseCallbackPayload(query), payload)
+        assert.deepEqual(parseCallbackPayload(`https://example.com/cb?${query}#foo`), payload)
+        assert.deepEqual(parseCallbackPayload(new URLSearchParams(payload)), payload)
+        assert.deepEqual(parseCallbackPayload({...payload, bn: 1234}).bn, '1234')
+    })
+
+    it('should collect extra signatures in order', function () {
+        const parsed = parseCallbackPayload({...payload, sig1: payload.sig, sig0: otherSig})
+        assert.deepEqual(getCallbackSignatures(parsed).map(String), [
+            payload.sig,
+            otherSig,
+            payload.sig,
+        ])
+        const dupe = parseCallbackPayload({...payload, sig0: payload.sig, sig1: otherSig})
+        assert.deepEqual(getCallbackSignatures(dupe).map(String), [payload.sig, otherSig])
+    })
+
+    it('should reject malformed fields', function () {
+        expectInvalid(() => parseCallbackPayload({...payload, sig: undefined}), 'sig')
+        expectInvalid(() => parseCallbackPayload({...payload, tx: 'beef'}), 'tx')
+        expectInvalid(() => parseCallbackPayload({...payload, sig: 'SIG_K1_foo'}), 'sig')
+        expectInvalid(() => parseCallbackPayload({...payload, sig0: 'nope'}), 'sig0')
+        expectInvalid(() => parseCallbackPayload({...payload, rbn: '65536'}), 'rbn')
+        expectInvalid(() => parseCallbackPayload({...payload, rid: '-1'}), 'rid')
+        expectInvalid(() => parseCallbackPayload({...payload, bn: '1.5'}), 'bn')
+        expectInvalid(() => parseCallbackPayload({...payload, sa: 'FOO'}), 'sa')
+        expectInvalid(() => parseCallbackPayload({...payload, ex: 'tomorrow'}), 'ex')
+        expectInvalid(() => parseCallbackPayload({...payload, cid: 'eos'}), 'cid')
+        expectInvalid(() => parseCallbackPayload({...payload, rbn: {}}), 'rbn')
+        expectInvalid(() => parseCallbackPayload('{"sig": '))
+    })
+
+    it('should verify transaction id against request', async function () {
+        const resolved = await verifyCallbackPayload(JSON.stringify(payload))
+        assert.equal(String(resolved.signer), 'foo@active')
+        await assert.rejects(
+            verifyCallbackPayload({...payload, tx: 'ff'.repeat(32)}),
+            (error: any) => error instanceof InvalidCallbackPayloadError && error.field === 'tx'
+        )
+        await assert.rejects(
+            verifyCallbackPayload({...payload, req: 'esr://AA'}),
+            (error: any) => error instanceof InvalidCallbackPayloadError && error.field === 'req'
+        )
+    })
+})
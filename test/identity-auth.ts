@@ -0,0 +1,228 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {Bytes, KeyType, Signature} from '@wharfkit/antelope'
+
+import {createAccountProvider, createProof, now} from './utils/mock-identity'
+
+import {
+    ChainId,
+    ChainName,
+    IdentityAuthenticator,
+    IdentityAuthOptions,
+    IdentityAuthReason,
+    identityAuthMiddleware,
+    IdentityProof,
+    InvalidArgumentsError,
+    koaIdentityAuthMiddleware,
+    withIdentityAuth,
+} from '../src'
+
+function createAuthenticator(options: Partial<IdentityAuthOptions> = {}) {
+    const {accountProvider} = createAccountProvider()
+    return new IdentityAuthenticator({
+        scope: 'myapp',
+        accountProvider,
+        verifierOptions: {now},
+        ...options,
+    })
+}
+
+class MockResponse {
+    statusCode = 200
+    headers: Record<string, string> = {}
+    body?: string
+    setHeader(name: string, value: string) {
+        this.headers[name.toLowerCase()] = value
+    }
+    end(body?: string) {
+        this.body = body
+    }
+}
+
+describe('identity auth', function () {
+    it('should authenticate identity proofs', async function () {
+        const authenticator = createAuthenticator()
+        const result = await authenticator.authenticate(String(createProof()))
+        assert.ok(result.authenticated)
+        assert.equal(String(result.identity.permission), 'foo@active')
+        assert.ok(result.identity.chainId.equals(ChainId.from(ChainName.EOS)))
+    })
+
+    it('should report why requests are not authenticated', async function () {
+        const authenticator = createAuthenticator({chains: [ChainName.EOS, ChainName.WAX]})
+        const garbled = IdentityProof.from({
+            ...createProof(),
+            signature: new Signature(KeyType.K1, Bytes.from(new Uint8Array(65))),
+        })
+        const cases: [string | undefined, IdentityAuthReason][] = [
+            [undefined, IdentityAuthReason.MISSING_PROOF],
+            ['Bearer foo', IdentityAuthReason.MISSING_PROOF],
+            ['EOSIO foo', IdentityAuthReason.INVALID_PROOF],
+            [String(garbled), IdentityAuthReason.INVALID_SIGNATURE],
+            [
+                String(createProof('foo@active', undefined, 'other')),
+                IdentityAuthReason.SCOPE_MISMATCH,
+            ],
+            [
+                String(createProof('foo@active', undefined, 'myapp', ChainName.JUNGLE)),
+                IdentityAuthReason.CHAIN_NOT_ALLOWED,
+            ],
+            [String(createProof('foo@other')), IdentityAuthReason.PERMISSION_NOT_FOUND],
+            [String(createProof('foo@owner')), IdentityAuthReason.KEY_NOT_IN_AUTHORITY],
+        ]
+        for (const [header, reason] of cases) {
+            const result = await authenticator.authenticate(header)
+            assert.ok(!result.authenticated)
+            assert.equal(result.reason, reason, header)
+        }
+        const expired = createAuthenticator({verifierOptions: {now: () => Date.now()}})
+        const result = await expired.authenticate(String(createProof()))
+        assert.equal(!result.authenticated && result.reason, IdentityAuthReason.EXPIRED)
+        const waxOnly = createAuthenticator({
+            accountProvider: (chainId) =>
+                chainId.equals(ChainId.from(ChainName.WAX))
+                    ? createAccountProvider().accountProvider
+                    : undefined,
+        })
+        const eos = await waxOnly.authenticate(String(createProof()))
+        assert.equal(!eos.authenticated && eos.reason, IdentityAuthReason.CHAIN_NOT_ALLOWED)
+    })
+
+    it('should only accept proofs for allowed chains', async function () {
+        const wax = String(createProof('foo@active', undefined, 'myapp', ChainName.WAX))
+        // a single provider defaults to its own chain
+        const single = await createAuthenticator().authenticate(wax)
+        assert.equal(!single.authenticated && single.reason, IdentityAuthReason.CHAIN_NOT_ALLOWED)
+        assert.throws(
+            () => createAuthenticator({accountProvider: {getAccount: async () => undefined}}),
+            InvalidArgumentsError
+        )
+        // providers are not requested for chains that are not allowed
+        const requested: string[] = []
+        const authenticator = createAuthenticator({
+            chains: [ChainName.EOS],
+            accountProvider: (chainId) => {
+                requested.push(String(chainId))
+                return createAccountProvider(chainId).accountProvider
+            },
+        })
+        const denied = await authenticator.authenticate(wax)
+        assert.equal(!denied.authenticated && denied.reason, IdentityAuthReason.CHAIN_NOT_ALLOWED)
+        assert.ok((await authenticator.authenticate(String(createProof()))).authenticated)
+        assert.ok((await authenticator.authenticate(String(createProof()))).authenticated)
+        assert.deepStrictEqual(requested, [String(ChainId.from(ChainName.EOS))])
+    })
+
+    it('should wrap node http handlers', async function () {
+        const handler = withIdentityAuth((req, res: MockResponse) => {
+            res.end(`Hello ${req.identity.permission}`)
+        }, createAuthenticator())
+        const request = async (authorization?: string) => {
+            const res = new MockResponse()
+            handler({headers: {authorization}}, res)
+            while (res.body === undefined) {
+                await new Promise((resolve) => setTimeout(resolve, 1))
+            }
+            return res
+        }
+        const ok = await request(String(createProof()))
+        assert.equal(ok.statusCode, 200)
+        assert.equal(ok.body, 'Hello foo@active')
+        const missing = await request()
+        assert.equal(missing.statusCode, 401)
+        assert.equal(missing.headers['www-authenticate'], 'EOSIO')
+        assert.deepStrictEqual(JSON.parse(missing.body!), {
+            error: 'missing_proof',
+            message: 'Missing EOSIO authorization header',
+        })
+        const invalid = await request(String(createProof('foo@owner')))
+        assert.equal(invalid.statusCode, 401)
+        assert.equal(
+            invalid.headers['www-authenticate'],
+            'EOSIO error="key_not_in_authority", error_description="Signing key is not in the signer authority"'
+        )
+    })
+
+    it('should catch handler errors', async function () {
+        const request = (
+            handler: () => unknown,
+            onError?: (error: unknown, req: unknown, res: MockResponse) => void
+        ) =>
+            new Promise<MockResponse>((resolve) => {
+                const res = new MockResponse()
+                const wrapped = withIdentityAuth(handler, createAuthenticator(), onError)
+                wrapped({headers: {authorization: String(createProof())}}, res)
+                const poll = () => (res.body === undefined ? setTimeout(poll, 1) : resolve(res))
+                poll()
+            })
+        const rejected = await request(async () => {
+            throw new Error('Boom')
+        })
+        assert.equal(rejected.statusCode, 500)
+        assert.deepStrictEqual(JSON.parse(rejected.body!), {
+            error: 'server_error',
+            message: 'Internal server error',
+        })
+        const thrown = await request(() => {
+            throw new Error('Boom')
+        })
+        assert.equal(thrown.statusCode, 500)
+        const custom = await request(
+            async () => {
+                throw new Error('Boom')
+            },
+            (error, req, res) => {
+                res.statusCode = 503
+                res.end((error as Error).message)
+            }
+        )
+        assert.equal(custom.statusCode, 503)
+        assert.equal(custom.body, 'Boom')
+    })
+
+    it('should pass account provider errors to express', async function () {
+        const middleware = identityAuthMiddleware({
+            scope: 'myapp',
+            chains: [ChainName.EOS],
+            accountProvider: {
+                getAccount: async () => {
+                    throw new Error('Network error')
+                },
+            },
+            verifierOptions: {now},
+        })
+        const error = await new Promise((resolve) => {
+            const req = {headers: {authorization: String(createProof())}}
+            middleware(req, new MockResponse(), resolve)
+        })
+        assert.equal((error as Error).message, 'Network error')
+    })
+
+    it('should provide koa middleware', async function () {
+        const middleware = koaIdentityAuthMiddleware(createAuthenticator({property: 'user'}))
+        const context = (authorization?: string) => ({
+            headers: {authorization},
+            state: {} as Record<string, any>,
+            status: 404,
+            body: undefined as unknown,
+            set(name: string, value: string) {
+                assert.equal(name, 'WWW-Authenticate')
+                assert.ok(value.startsWith('EOSIO'))
+            },
+        })
+        const ok = context(String(createProof()))
+        let called = false
+        await middleware(ok, async () => {
+            called = true
+        })
+        assert.ok(called)
+        assert.equal(String(ok.state.user.permission), 'foo@active')
+        const denied = context('EOSIO foo')
+        await middleware(denied, async () => assert.fail('should not be called'))
+        assert.equal(denied.status, 401)
+        assert.deepStrictEqual(denied.body, {
+            error: 'invalid_proof',
+            message: 'Malformed identity proof',
+        })
+    })
+})
@@ -0,0 +1,192 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {
+    Bytes,
+    KeyType,
+    Name,
+    PermissionLevel,
+    Serializer,
+    Signature,
+    Struct,
+    TimePointSec,
+} from '@wharfkit/antelope'
+
+import {createAccountProvider, createProof, key, now, otherKey} from './utils/mock-identity'
+
+import {
+    ChainId,
+    ChainName,
+    IdentityProof,
+    IdentityProofStatus,
+    IdentityProofVerifier,
+    InvalidArgumentsError,
+    MemorySeenProofStore,
+    SigningRequest,
+} from '../src'
+
+/** Identity proof as decoded by implementations without identity challenges. */
+@Struct.type('identity_proof')
+class LegacyIdentityProof extends Struct {
+    @Struct.field(ChainId) chainId!: ChainId
+    @Struct.field(Name) scope!: Name
+    @Struct.field(TimePointSec) expiration!: TimePointSec
+    @Struct.field(PermissionLevel) signer!: PermissionLevel
+    @Struct.field(Signature) signature!: Signature
+}
+
+function createVerifier(options = {}) {
+    const {provider, accountProvider} = createAccountProvider()
+    return {provider, verifier: new IdentityProofVerifier(accountProvider, {now, ...options})}
+}
+
+describe('identity verifier', function () {
+    it('should verify proofs', async function () {
+        const {provider, verifier} = createVerifier()
+        const proof = createProof()
+        const result = await verifier.verify(String(proof))
+        assert.equal(result.valid, true)
+        assert.equal(result.status, IdentityProofStatus.VALID)
+        assert.ok(result.proof.equals(proof))
+        assert.ok(result.key!.equals(key.toPublic()))
+        assert.equal(result.authority!.threshold.toNumber(), 1)
+        assert.equal((await verifier.verify(proof)).valid, true)
+        assert.deepStrictEqual(provider.calls, ['/v1/chain/get_account'])
+    })
+
+    it('should report why proofs are invalid', async function () {
+        const {verifier} = createVerifier()
+        const cases: [IdentityProof, IdentityProofStatus][] = [
+            [createProof('foo@owner'), IdentityProofStatus.KEY_NOT_IN_AUTHORITY],
+            [createProof('foo@owner', otherKey), IdentityProofStatus.VALID],
+            [createProof('foo@other'), IdentityProofStatus.PERMISSION_NOT_FOUND],
+            [createProof('bar@active'), IdentityProofStatus.PERMISSION_NOT_FOUND],
+        ]
+        for (const [proof, status] of cases) {
+            const result = await verifier.verify(proof)
+            assert.equal(result.status, status, String(proof.signer))
+            assert.equal(result.valid, status === IdentityProofStatus.VALID)
+        }
+        const expired = await verifier.verify(createProof(), '2020-07-10T09:00:00')
+        assert.equal(expired.status, IdentityProofStatus.EXPIRED)
+        assert.equal(expired.key, undefined)
+        const garbled = IdentityProof.from({
+            ...createProof(),
+            signature: new Signature(KeyType.K1, Bytes.from(new Uint8Array(65))),
+        })
+        const invalid = await verifier.verify(garbled)
+        assert.equal(invalid.status, IdentityProofStatus.INVALID_SIGNATURE)
+        assert.equal(invalid.key, undefined)
+        const {verifier: jungle} = createVerifier({chainId: ChainName.JUNGLE})
+        assert.equal(
+            (await jungle.verify(createProof())).status,
+            IdentityProofStatus.CHAIN_MISMATCH
+        )
+    })
+
+    it('should cache account lookups', async function () {
+        let time = now()
+        const {provider, verifier} = createVerifier({now: () => time, ttl: 1000})
+        const proof = createProof()
+        await Promise.all([verifier.verify(proof), verifier.verify(proof)])
+        assert.equal(provider.calls.length, 1)
+        time += 999
+        await verifier.verify(proof)
+        assert.equal(provider.calls.length, 1)
+        time += 1
+        await verifier.verify(proof)
+        assert.equal(provider.calls.length, 2)
+        verifier.invalidate('foo')
+        await verifier.verify(proof)
+        assert.equal(provider.calls.length, 3)
+        // missing accounts are cached too
+        await verifier.verify(createProof('bar@active'))
+        await verifier.verify(createProof('bar@active'))
+        assert.equal(provider.calls.length, 4)
+    })
+
+    it('should verify identity challenges', async function () {
+        const challenge = 'beefbeefbeefbeef'
+        const request = SigningRequest.identity({
+            scope: 'myapp',
+            challenge,
+            callback: 'https://example.com/login',
+        })
+        const decoded = SigningRequest.from(request.encode())
+        assert.equal(decoded.data.flags.identityChallenge, true)
+        assert.equal(String(decoded.getIdentityChallenge()), challenge)
+        const resolved = decoded.resolve(new Map(), PermissionLevel.from('foo@active'), {
+            expiration: '2020-07-10T08:40:20',
+        })
+        const callback = resolved.getCallback([key.signDigest(resolved.signingDigest)])!
+        const proof = IdentityProof.fromPayload(callback.payload)
+        assert.equal(String(proof.challenge), challenge)
+        assert.ok(IdentityProof.from(String(proof)).equals(proof))
+        const {verifier} = createVerifier()
+        assert.equal((await verifier.verify(String(proof), undefined, challenge)).valid, true)
+        const mismatch = await verifier.verify(proof, undefined, 'beef')
+        assert.equal(mismatch.status, IdentityProofStatus.CHALLENGE_MISMATCH)
+        const missing = await verifier.verify(createProof(), undefined, challenge)
+        assert.equal(missing.status, IdentityProofStatus.CHALLENGE_MISMATCH)
+        // the challenge is part of the signed transaction
+        const stripped = IdentityProof.from({...proof, challenge: 'beef'})
+        assert.equal((await verifier.verify(stripped)).valid, false)
+        const {verifier: checking} = createVerifier({
+            checkChallenge: async (value: Bytes | null) => String(value) === challenge,
+        })
+        assert.equal((await checking.verify(proof)).valid, true)
+        assert.equal(
+            (await checking.verify(createProof())).status,
+            IdentityProofStatus.CHALLENGE_MISMATCH
+        )
+        assert.throws(
+            () => SigningRequest.identity({challenge, callback: 'https://example.com'}),
+            InvalidArgumentsError
+        )
+        // without the flag the challenge is not bound and the standard proof transaction is used
+        const legacy = request.clone()
+        legacy.data.flags.identityChallenge = false
+        assert.equal(legacy.getIdentityChallenge(), null)
+        const unbound = legacy.resolve(new Map(), PermissionLevel.from('foo@active'), {
+            expiration: '2020-07-10T08:40:20',
+        })
+        assert.equal(unbound.transaction.transaction_extensions.length, 0)
+    })
+
+    it('should stay compatible with proofs without challenges', async function () {
+        // proof header encoded before identity challenges were added
+        const header =
+            'EOSIO rKN28ga4/CWm7UTb3GZUfDbGwz46EZ/76u+UNkLw6QYAAAAAgFqNl3QpCF8AAAAAAAAoXQAAAACo7TIyACADjgdGrTi419oL5xPH8fN65/78hhvi5GR9vq4x1u6Y+XqKLnkB0zcQ6HlKp9CyP2v11VuFW+WkjmsLH13EUAjj'
+        const proof = IdentityProof.from(header)
+        assert.ok(!proof.challenge)
+        assert.equal(String(proof), header)
+        assert.equal(String(createProof()), header)
+        const {verifier} = createVerifier()
+        assert.equal((await verifier.verify(header)).status, IdentityProofStatus.VALID)
+        // the challenge is a trailing field, decoders without it read the other fields
+        const challenged = IdentityProof.from({...proof, challenge: 'beef'})
+        const legacy = Serializer.decode({
+            data: Serializer.encode({object: challenged}),
+            type: LegacyIdentityProof,
+        })
+        assert.ok(legacy.chainId.equals(proof.chainId))
+        assert.equal(String(legacy.signer), 'foo@active')
+        assert.ok(legacy.signature.equals(proof.signature))
+    })
+
+    it('should reject replayed proofs', async function () {
+        let time = now()
+        const seenProofs = new MemorySeenProofStore(() => time)
+        const {verifier} = createVerifier({now: () => time, replayProtection: true, seenProofs})
+        const proof = createProof()
+        assert.equal((await verifier.verify(proof)).status, IdentityProofStatus.VALID)
+        assert.equal((await verifier.verify(proof)).status, IdentityProofStatus.REPLAYED)
+        // invalid proofs are not recorded
+        assert.equal((await verifier.verify(createProof('foo@owner'))).valid, false)
+        assert.equal((await verifier.verify(createProof('foo@owner', otherKey))).valid, true)
+        assert.equal((await createVerifier().verifier.verify(proof)).valid, true)
+        time = proof.expiration.toMilliseconds()
+        assert.equal(seenProofs.add('foo', time + 1000), true)
+        assert.equal(seenProofs.add('foo', time + 1000), false)
+        assert.equal(seenProofs.add(String(proof.signature), time + 1000), true)
+    })
+})
@@ -1,6 +1,29 @@
 import {strict as assert} from 'assert'
+import {readFileSync as readfile} from 'fs'
+import {join as joinPath} from 'path'
 import 'mocha'
-import {ChainId, ChainIdVariant, ChainName, RequestFlags} from '../src'
+import {
+    ChainConflictError,
+    ChainDefinitions,
+    ChainId,
+    ChainIdVariant,
+    ChainRegistry,
+    Chains,
+    ChainMismatchError,
+    ChainName,
+    ErrorCode,
+    IdentityProof,
+    InvalidArgumentsError,
+    InvalidIdentityProofError,
+    InvalidTaposError,
+    MissingAbiError,
+    RequestFlagRegistry,
+    RequestFlags,
+    SigningRequest,
+    SigningRequestError,
+    UnknownChainAliasError,
+    UnsupportedVersionError,
+} from '../src'
 
 describe('misc', function () {
     it('should create chain id', function () {
@@ -21,6 +44,73 @@ describe('misc', function () {
             ChainIdVariant.from(['chain_alias', 0]).chainId
         })
     })
+    it('should register chains', function () {
+        const registry = new ChainRegistry(ChainDefinitions)
+        assert.equal(registry.list().length, 12)
+        assert.equal(registry.get(ChainName.WAX)!.coreSymbol!.toString(), '8,WAX')
+        assert.equal(registry.get('telos')!.displayName, 'Telos')
+        assert.equal(registry.get(ChainId.from(ChainName.JUNGLE))!.testnet, true)
+        const id = 'beefbeef06b8fc25a6ed44dbdc66547c36c6c33e3a119ffbeaef943642f0e906'
+        const info = registry.register({id, name: 'BEEF', coreSymbol: '4,BEEF'})
+        assert.equal(info.displayName, 'BEEF')
+        assert.equal(info.testnet, false)
+        assert.equal(registry.get(id), info)
+        assert.equal(registry.list()[12], info)
+        assert.throws(() => {
+            registry.register({id, name: 'OTHER'})
+        }, ChainConflictError)
+        assert.throws(() => {
+            registry.register({id: ChainId.from(ChainName.EOS), name: 'BEEF2'})
+        }, ChainConflictError)
+        assert.throws(() => {
+            registry.register({alias: 1, id: 'ff'.repeat(32), name: 'BEEF3'})
+        }, ChainConflictError)
+        assert.throws(() => {
+            registry.register({alias: 256, id: 'ff'.repeat(32), name: 'BEEF4'})
+        }, ChainConflictError)
+        registry.register({id, alias: 42, name: 'BEEF'}, true)
+        assert.equal(registry.getByAlias(42)!.name, 'BEEF')
+        assert.equal(registry.unregister(id), true)
+        assert.equal(registry.get('beef'), undefined)
+        assert.equal(registry.unregister(id), false)
+    })
+    it('should use registered chains in chain id', function () {
+        const id = ChainId.from('beefbeef06b8fc25a6ed44dbdc66547c36c6c33e3a119ffbeaef943642f0e906')
+        assert.equal(id.chainInfo, undefined)
+        Chains.register({id, alias: 200, name: 'BEEF', testnet: true})
+        try {
+            // custom aliases are decoded but never encoded
+            assert.equal(id.chainName, ChainName.UNKNOWN)
+            assert.equal(id.chainInfo!.testnet, true)
+            assert.equal(id.chainVariant.variantName, 'chain_id')
+            assert.ok(ChainId.from(200).equals(id))
+            assert.equal(ChainIdVariant.from(['chain_alias', 200]).chainInfo!.name, 'BEEF')
+        } finally {
+            Chains.unregister(id)
+        }
+        assert.equal(id.chainName, ChainName.UNKNOWN)
+        assert.equal(id.chainVariant.variantName, 'chain_id')
+    })
+    it('should match chain aliases in specification', function () {
+        const spec = readfile(joinPath(__dirname, '../protocol-specification.md')).toString()
+        const rows = spec.matchAll(/^\s+`0x([0-9a-f]{2})` \| (\w+)\s+\| `([0-9a-f]{64})`$/gm)
+        const aliases = Array.from(rows).map(([, alias, name, id]) => ({
+            alias: parseInt(alias, 16),
+            name,
+            id,
+        }))
+        // known differences in the published table, encoded requests use the values in code
+        const published: Record<string, {alias?: number; id?: string}> = {
+            JUNGLE: {id: '038f4b0fc8ff18a4f0842a8f0564611f6e96e8535901dd45e43ac8691a1c4dca'},
+            WAX: {alias: 0x10},
+            PROTON: {alias: 0x11},
+            FIO: {alias: 0x12},
+        }
+        assert.deepEqual(
+            aliases,
+            ChainDefinitions.map(({alias, name, id}) => ({alias, name, id, ...published[name]}))
+        )
+    })
     it('should set request flags', function () {
         const flags = RequestFlags.from(0)
         assert.equal(flags.background, false)
@@ -42,4 +132,143 @@ describe('misc', function () {
         assert.equal(flags.broadcast, false)
         assert.equal(Number(flags), 0)
     })
+    it('should register custom request flags', function () {
+        const registry = new RequestFlagRegistry()
+        const flag = registry.register('example', 6)
+        assert.equal(flag, 1 << 6)
+        assert.equal(registry.register('example', 6), flag)
+        assert.throws(() => registry.register('example', 5), InvalidArgumentsError)
+        assert.throws(() => registry.register('other', 1), /conflicts with background/)
+        assert.throws(() => registry.register('other', 8), RangeError)
+        const flags = RequestFlags.from(0)
+        flags.setFlag('example', true, registry)
+        flags.setFlag(1 << 7, true)
+        flags.broadcast = true
+        assert.equal(Number(flags), 0xc1)
+        assert.deepEqual(flags.names(registry), ['broadcast', 'example'])
+        assert.equal(flags.unknownBits(registry), 0x80)
+        assert.equal(flags.hasFlag('example', registry), true)
+        assert.equal(flags.hasFlag('background'), false)
+        assert.throws(() => flags.hasFlag('foo', registry), /Unknown request flag foo/)
+        // registrations are local to the registry
+        assert.deepEqual(flags.names(), ['broadcast'])
+        assert.equal(flags.unknownBits(), 0xc0)
+        assert.throws(() => flags.hasFlag('example'), /Unknown request flag example/)
+        const request = SigningRequest.identity(
+            {scope: 'foo', callback: 'https://example.com'},
+            {flagRegistry: registry}
+        )
+        request.data.flags.setFlag('example', true, registry)
+        assert.deepEqual(request.toObject().flags.names, ['example'])
+        assert.deepEqual(request.clone().toObject().flags.names, ['example'])
+        assert.equal(registry.unregister('example'), true)
+        assert.equal(registry.unregister('example'), false)
+        assert.equal(registry.unregister('broadcast'), false)
+        registry.register('example', 6)
+        registry.reset()
+        assert.deepEqual(flags.names(registry), ['broadcast'])
+    })
+    it('should decode compatible versions', function () {
+        const request = SigningRequest.identity({scope: 'foo', callback: 'https://example.com'})
+        request.data.flags.setFlag(1 << 7, true)
+        const warnings: string[] = []
+        const onWarning = (message: string) => warnings.push(message)
+        const decoded = SigningRequest.from(request.encode(), {onWarning})
+        assert.equal(Number(decoded.data.flags), Number(request.data.flags))
+        assert.equal(decoded.encode(), request.encode())
+        assert.deepEqual(warnings, ['Unknown request flags 0x80, kept as is'])
+        const data = request.getEncodedData(false)
+        data[0] = 4
+        assert.throws(() => SigningRequest.fromData(data), UnsupportedVersionError)
+        warnings.length = 0
+        const extended = SigningRequest.fromData(
+            new Uint8Array([...Array.from(data), 0x01, 0x02]),
+            {compatibleVersions: [4], onWarning}
+        )
+        assert.equal(extended.version, 4)
+        assert.equal(String(extended.getIdentityScope()), 'foo')
+        assert.deepEqual(warnings, [
+            'Decoding version 4 request using the version 3 layout',
+            'Ignoring 2 bytes of unknown data',
+            'Unknown request flags 0x80, kept as is',
+        ])
+        assert.deepEqual(Array.from(extended.getEncodedData(false)), Array.from(data))
+    })
+    it('should throw typed errors', function () {
+        function expectError<T>(fn: () => any, type: new (...args: any[]) => T, code: ErrorCode) {
+            let error: any
+            try {
+                fn()
+            } catch (e) {
+                error = e
+            }
+            assert.ok(error instanceof type, `expected ${type.name}`)
+            assert.ok(error instanceof SigningRequestError)
+            assert.equal(error.code, code)
+            assert.equal(error.name, type.name)
+            return error as T
+        }
+        const alias = expectError(
+            () => ChainId.from(99),
+            UnknownChainAliasError,
+            ErrorCode.UNKNOWN_CHAIN_ALIAS
+        )
+        assert.equal(alias.alias, 99)
+        const version = expectError(
+            () => SigningRequest.fromData('0a00'),
+            UnsupportedVersionError,
+            ErrorCode.UNSUPPORTED_VERSION
+        )
+        assert.equal(version.version, 10)
+        assert.equal(version.message, 'Unsupported protocol version')
+        const request = SigningRequest.createSync({
+            action: {
+                account: 'eosio.token',
+                name: 'transfer',
+                authorization: [{actor: 'foo', permission: 'active'}],
+                data: '0000',
+            },
+        })
+        const abi = expectError(
+            () => request.resolveActions(new Map()),
+            MissingAbiError,
+            ErrorCode.MISSING_ABI
+        )
+        assert.equal(String(abi.account), 'eosio.token')
+        expectError(
+            () => request.resolveTransaction(new Map(), {actor: 'foo', permission: 'active'}),
+            InvalidTaposError,
+            ErrorCode.INVALID_TAPOS
+        )
+        const multiChain = SigningRequest.identity({
+            chainId: null,
+            chainIds: [ChainName.EOS],
+            scope: 'foo',
+            callback: 'https://example.com',
+        })
+        const mismatch = expectError(
+            () =>
+                multiChain.resolve(
+                    new Map(),
+                    {actor: 'foo', permission: 'active'},
+                    {chainId: ChainName.WAX}
+                ),
+            ChainMismatchError,
+            ErrorCode.CHAIN_MISMATCH
+        )
+        assert.ok(mismatch.chainId!.equals(ChainId.from(ChainName.WAX)))
+        assert.deepEqual(mismatch.chainIds!.map(String), [String(ChainId.from(ChainName.EOS))])
+        expectError(
+            () => IdentityProof.fromString('Bearer foo'),
+            InvalidIdentityProofError,
+            ErrorCode.INVALID_IDENTITY_PROOF
+        )
+        const args = expectError(
+            () => SigningRequest.createSync({}),
+            InvalidArgumentsError,
+            ErrorCode.INVALID_ARGUMENTS
+        )
+        assert.ok(!(args instanceof TypeError))
+        assert.equal(Object.getPrototypeOf(args.constructor), SigningRequestError)
+    })
 })
@@ -0,0 +1,125 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import abiProvider from './utils/mock-abi-provider'
+import zlib from './utils/node-zlib-provider'
+
+import {ErrorCode, QRCapacityError, QRCode, SigningRequest} from '../src'
+
+describe('qrcode', function () {
+    it('should encode byte mode', function () {
+        // reference matrix from an independent encoder using the same mask
+        const qr = QRCode.encode('esr:gmNgZGRkAIFXBqEFopc6760yugsVYWCA0YIwxgKjuxLSL6-mgmQA')
+        assert.equal(qr.version, 4)
+        assert.equal(qr.size, 33)
+        assert.equal(qr.mode, 'byte')
+        assert.equal(qr.errorCorrection, 'M')
+        assert.equal(qr.mask, 2)
+        const expected = [
+            '#######...#..#..#..###....#######',
+            '#.....#....#.#####..###...#.....#',
+            '#.###.#.#.#..#.##..####.#.#.###.#',
+            '#.###.#.##.#..####.#..#...#.###.#',
+            '#.###.#.##..#..#..###.##..#.###.#',
+            '#.....#.#.#.#####.#.##..#.#.....#',
+            '#######.#.#.#.#.#.#.#.#.#.#######',
+            '........#.###.##..#.#####........',
+            '#.#####.....######.#.####.#####..',
+            '###.##.#......#.#####.....#...##.',
+            '....#.#.....#..##....#....####.#.',
+            '##...#..#.....##...###.###..####.',
+            '..#...###............#####.#.#..#',
+            '.##.##.##...#.###..###.#.##..####',
+            '.#...###.##.#.#..##.#.#..#...#.#.',
+            '#####..###.###..#...##.#########.',
+            '.##...#.#.#####.####.#####.#..##.',
+            '..#.#..#.#.#..#.#...#.##.#....##.',
+            '##.##.#####.#.##..#.###.##.....#.',
+            '##......########....##.####.#.#.#',
+            '#..#.##...#..#.##....##.##...#.#.',
+            '###.##...#######..##..#..##...#.#',
+            '#....##.#.#..#####...#....##.#.#.',
+            '#...##.##..#...#..####.#..##.##..',
+            '#.#####....#.######..##.#####.#.#',
+            '........#.##.##.....##.##...#..#.',
+            '#######....#.###..#.#...#.#.#..#.',
+            '#.....#.#.#..#..#....####...#####',
+            '#.###.#.#.#....#..#.###.#####....',
+            '#.###.#.#..#.####.##.#.#.#.##.###',
+            '#.###.#.#####....#.....##....##..',
+            '#.....#...##.##.#...##....#.#.#..',
+            '#######.###.....#####.###....#.#.',
+        ]
+        assert.deepEqual(
+            qr.modules.map((row) => row.map((dark) => (dark ? '#' : '.')).join('')),
+            expected
+        )
+    })
+
+    it('should pick mode and error correction', function () {
+        const numeric = QRCode.encode('01234567')
+        assert.equal(numeric.mode, 'numeric')
+        assert.equal(numeric.version, 1)
+        assert.equal(numeric.errorCorrection, 'H')
+        const alphanumeric = QRCode.encode('ESR:FOO-BAR')
+        assert.equal(alphanumeric.mode, 'alphanumeric')
+        const fixed = QRCode.encode('01234567', {
+            errorCorrection: 'L',
+            boostErrorCorrection: false,
+            minVersion: 3,
+        })
+        assert.equal(fixed.errorCorrection, 'L')
+        assert.equal(fixed.version, 3)
+    })
+
+    it('should encode requests in smallest version', async function () {
+        const request = await SigningRequest.create(
+            {
+                action: {
+                    account: 'eosio.token',
+                    name: 'transfer',
+                    authorization: [{actor: 'foo', permission: 'active'}],
+                    data: {from: 'foo', to: 'bar', quantity: '1.000 EOS', memo: 'hello there'},
+                },
+            },
+            {abiProvider, zlib}
+        )
+        const compressed = QRCode.fromRequest(request, {errorCorrection: 'L'})
+        const uncompressed = QRCode.fromRequest(request, {errorCorrection: 'L', compress: false})
+        assert.ok(compressed.version <= uncompressed.version)
+        assert.throws(() => {
+            QRCode.encode(request.encode(), {
+                errorCorrection: 'L',
+                maxVersion: compressed.version - 1,
+            })
+        }, QRCapacityError)
+    })
+
+    it('should throw when exceeding capacity', function () {
+        assert.throws(
+            () => QRCode.encode('esr:' + 'a'.repeat(3000), {errorCorrection: 'L'}),
+            (error: any) => {
+                assert.ok(error instanceof QRCapacityError)
+                assert.equal(error.code, ErrorCode.QR_CAPACITY)
+                assert.equal(error.length, 3004)
+                assert.equal(error.capacity, 2953)
+                return true
+            }
+        )
+        assert.throws(() => QRCode.encode('esr:foobar', {maxVersion: 1, errorCorrection: 'H'}))
+    })
+
+    it('should render svg and terminal output', function () {
+        const qr = QRCode.encode('01234567')
+        const svg = qr.toSVG({margin: 1, scale: 2})
+        assert.ok(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"'))
+        assert.ok(svg.includes('viewBox="0 0 23 23" width="46" height="46"'))
+        assert.ok(svg.includes('M1,1h1v1h-1z'))
+        const terminal = qr.toTerminal({margin: 1}).split('\n')
+        assert.equal(terminal.length, 12)
+        assert.ok(terminal.every((line) => line.length === 23))
+        assert.ok(terminal[0].startsWith('█' + '▀'.repeat(7) + '█'))
+        const inverted = qr.toTerminal({margin: 1, invert: true}).split('\n')
+        assert.ok(inverted[0].startsWith(' ' + '▄'.repeat(7) + ' '))
+    })
+})
@@ -0,0 +1,133 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {PrivateKey, UInt64} from '@wharfkit/antelope'
+
+import abiProvider from './utils/mock-abi-provider'
+
+import {
+    ChainId,
+    ChainName,
+    InvalidArgumentsError,
+    SigningRequest,
+    SigningRequestBuilder,
+} from '../src'
+
+const transfer = {
+    account: 'eosio.token',
+    name: 'transfer',
+    authorization: [{actor: 'foo', permission: 'active'}],
+    data: '000000000000285d000000000000ae39e80300000000000003454f53000000000b68656c6c6f207468657265',
+}
+
+describe('request builder', function () {
+    it('should pick the most compact request', function () {
+        const single = new SigningRequestBuilder().action(transfer).createSync()
+        assert.equal(single.data.req.variantName, 'action')
+        assert.equal(single.version, 2)
+        assert.equal(single.encode(), SigningRequest.createSync({action: transfer}).encode())
+        const multiple = new SigningRequestBuilder().action(transfer).action(transfer).createSync()
+        assert.equal(multiple.data.req.variantName, 'action[]')
+        assert.equal(
+            multiple.encode(),
+            SigningRequest.createSync({actions: [transfer, transfer]}).encode()
+        )
+        const expiring = new SigningRequestBuilder()
+            .expiration('2020-07-10T08:40:20')
+            .action(transfer)
+            .createSync()
+        assert.equal(expiring.data.req.variantName, 'transaction')
+        assert.equal(String(expiring.getRawTransaction().expiration), '2020-07-10T08:40:20')
+        const contextFree = new SigningRequestBuilder()
+            .contextFreeAction(transfer)
+            .action(transfer)
+            .header({delay_sec: 10})
+            .createSync()
+        const tx = contextFree.getRawTransaction()
+        assert.equal(tx.context_free_actions.length, 1)
+        assert.equal(tx.actions.length, 1)
+        assert.equal(tx.delay_sec.toNumber(), 10)
+    })
+
+    it('should set chains, callbacks, flags and info', function () {
+        const request = new SigningRequestBuilder()
+            .multiChain([ChainName.EOS, ChainName.WAX])
+            .action(transfer)
+            .callback('https://example.com/{{tx}}', true)
+            .broadcast(false)
+            .flag(1 << 7)
+            .info('foo', 'bar')
+            .info('num', UInt64.from(42), UInt64)
+            .createSync()
+        assert.equal(request.version, 3)
+        assert.equal(request.isMultiChain(), true)
+        assert.deepEqual(request.getChainIds()!.map(String), [
+            String(ChainId.from(ChainName.EOS)),
+            String(ChainId.from(ChainName.WAX)),
+        ])
+        assert.equal(request.data.callback, 'https://example.com/{{tx}}')
+        assert.equal(request.data.flags.background, true)
+        assert.equal(request.data.flags.broadcast, false)
+        assert.equal(request.data.flags.unknownBits(), 1 << 7)
+        assert.equal(request.getInfoKey('foo'), 'bar')
+        assert.equal(request.getInfoKey('num', UInt64).toNumber(), 42)
+        const wax = new SigningRequestBuilder().chain(ChainName.WAX).action(transfer).createSync()
+        assert.ok(wax.getChainId().equals(ChainId.from(ChainName.WAX)))
+        assert.equal(wax.data.flags.broadcast, true)
+    })
+
+    it('should create identity requests', function () {
+        const request = new SigningRequestBuilder()
+            .identity({scope: 'myapp', account: 'foo', challenge: 'beef'})
+            .callback('https://example.com/login')
+            .createSync()
+        assert.equal(request.isIdentity(), true)
+        assert.equal(request.version, 3)
+        assert.equal(String(request.getIdentity()), 'foo')
+        assert.equal(String(request.getIdentityScope()), 'myapp')
+        assert.equal(String(request.getIdentityChallenge()), 'beef')
+        assert.equal(request.data.flags.broadcast, false)
+        const v2 = new SigningRequestBuilder().identity().callback('myapp://login').createSync()
+        assert.equal(v2.version, 2)
+    })
+
+    it('should sign after applying all fields', async function () {
+        const key = PrivateKey.from('PVT_K1_2wFL8Ne8JoGrxz6GdnfB7d4yhUYpqNgubHeKUC64qT3XE6Ro84')
+        const signatureProvider = {
+            sign: (message: any) => ({signer: 'foo', signature: key.signDigest(message)}),
+        }
+        const request = await new SigningRequestBuilder()
+            .action({
+                ...transfer,
+                data: {from: 'foo', to: 'bar', quantity: '1.000 EOS', memo: 'hello there'},
+            })
+            .flag('background')
+            .create({abiProvider, signatureProvider})
+        assert.equal(request.data.flags.background, true)
+        assert.equal(request.getSignatureStatus(key.toPublic()), 'valid')
+        const presigned = new SigningRequestBuilder()
+            .action(transfer)
+            .signature('foo', request.signature!.signature)
+            .createSync()
+        assert.equal(String(presigned.signature!.signer), 'foo')
+    })
+
+    it('should type check builder states', function () {
+        const builder = new SigningRequestBuilder()
+        assert.throws(() => {
+            // @ts-expect-error empty requests can not be created
+            builder.createSync()
+        }, InvalidArgumentsError)
+        // @ts-expect-error identity requests can not contain actions
+        assert.ok(new SigningRequestBuilder().identity().action(transfer))
+        // @ts-expect-error action requests can not be identity requests
+        assert.ok(new SigningRequestBuilder().action(transfer).identity())
+        assert.throws(
+            () => new SigningRequestBuilder().identity().broadcast(true).createSync(),
+            /identity request cannot be broadcast/
+        )
+        assert.throws(
+            () => new SigningRequestBuilder().identity().flag('broadcast').createSync(),
+            /identity request cannot be broadcast/
+        )
+    })
+})
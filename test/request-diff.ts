@@ -0,0 +1,106 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {Bytes, PrivateKey} from '@wharfkit/antelope'
+
+import abiProvider from './utils/mock-abi-provider'
+
+import {ChainIdVariant, ChainName, InfoPair, SigningRequest} from '../src'
+
+const key = PrivateKey.from('PVT_K1_2wFL8Ne8JoGrxz6GdnfB7d4yhUYpqNgubHeKUC64qT3XE6Ro84')
+const signatureProvider = {
+    sign: (message: any) => ({signer: 'foo', signature: key.signDigest(message)}),
+}
+
+function transfer(quantity: string, memo = 'hello there') {
+    return {
+        account: 'eosio.token',
+        name: 'transfer',
+        authorization: [{actor: 'foo', permission: 'active'}],
+        data: {from: 'foo', to: 'bar', quantity, memo},
+    }
+}
+
+describe('request diff', function () {
+    it('should ignore encoding differences', async function () {
+        const request = await SigningRequest.create(
+            {action: transfer('1.000 EOS'), callback: 'https://example.com'},
+            {abiProvider}
+        )
+        const compressed = SigningRequest.from(request.encode(true))
+        const uncompressed = SigningRequest.from(request.encode(false))
+        assert.equal(request.equals(compressed), true)
+        assert.deepStrictEqual(compressed.diff(uncompressed), [
+            {path: 'compressed', value: true, other: false},
+        ])
+        assert.equal(compressed.equals(uncompressed, {ignoreCompression: true}), true)
+        const byId = SigningRequest.createSync({
+            action: request.getRawActions()[0],
+            callback: 'https://example.com',
+        })
+        byId.data.chain_id = ChainIdVariant.from(['chain_id', request.getChainId()])
+        assert.equal(byId.toObject().chain.alias, undefined)
+        assert.equal(request.equals(byId), true)
+        const signed = request.clone()
+        signed.sign(signatureProvider)
+        assert.deepStrictEqual(
+            request.diff(signed).map(({path}) => path),
+            ['signature']
+        )
+        assert.equal(request.equals(signed, {ignoreSignature: true}), true)
+    })
+
+    it('should report differences at field level', async function () {
+        const request = await SigningRequest.create(
+            {
+                actions: [transfer('1.000 EOS'), transfer('2.000 EOS')],
+                callback: 'https://example.com',
+                info: {foo: 'bar', baz: 'qux'},
+            },
+            {abiProvider}
+        )
+        const other = await SigningRequest.create(
+            {
+                actions: [transfer('1.000 EOS'), transfer('3.000 EOS'), transfer('4.000 EOS')],
+                callback: {url: 'https://example.com/other', background: true},
+                chainId: ChainName.WAX,
+                info: {baz: 'qux', foo: 'baz'},
+            },
+            {abiProvider}
+        )
+        const abis = await request.fetchAbis()
+        const differences = request.diff(other, {abis})
+        assert.deepStrictEqual(
+            differences.map(({path}) => path),
+            ['chain', 'actions.1.data.quantity', 'actions.2', 'flags', 'callback', 'info.foo']
+        )
+        assert.deepStrictEqual(differences[1], {
+            path: 'actions.1.data.quantity',
+            value: '2.000 EOS',
+            other: '3.000 EOS',
+        })
+        assert.deepStrictEqual(differences[3], {path: 'flags', value: 1, other: 3})
+        assert.deepStrictEqual(
+            request.diff(other).map(({path}) => path),
+            ['chain', 'actions.1.data', 'actions.2', 'flags', 'callback', 'info.foo']
+        )
+    })
+
+    it('should report duplicate info keys', async function () {
+        const request = SigningRequest.identity({
+            scope: 'myapp',
+            callback: 'myapp://login',
+            info: {foo: 'bar'},
+        })
+        const duplicate = request.clone()
+        duplicate.data.info.push(InfoPair.from({key: 'foo', value: Bytes.from('baz', 'utf8')}))
+        assert.deepStrictEqual(request.diff(duplicate), [
+            {path: 'info.foo', value: 'bar', other: ['bar', 'baz']},
+        ])
+        const reordered = request.clone()
+        reordered.data.info.unshift(InfoPair.from({key: 'foo', value: Bytes.from('baz', 'utf8')}))
+        assert.deepStrictEqual(
+            duplicate.diff(reordered).map(({path}) => path),
+            ['info.foo.0', 'info.foo.1']
+        )
+    })
+})
@@ -0,0 +1,175 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {PrivateKey, UInt64} from '@wharfkit/antelope'
+
+import abiProvider from './utils/mock-abi-provider'
+
+import {
+    ChainName,
+    InvalidArgumentsError,
+    PlaceholderAuth,
+    PlaceholderName,
+    RequestObject,
+    SigningRequest,
+    SigningRequestBuilder,
+    UnsupportedVersionError,
+} from '../src'
+
+const transfer = {
+    account: 'eosio.token',
+    name: 'transfer',
+    authorization: [{actor: 'foo', permission: 'active'}],
+    data: '000000000000285d000000000000ae39e80300000000000003454f53000000000b68656c6c6f207468657265',
+}
+
+function assertRoundTrip(request: SigningRequest, object: RequestObject) {
+    const decoded = SigningRequest.fromObject(JSON.parse(JSON.stringify(object)))
+    assert.deepStrictEqual(decoded.getData(), request.getData())
+    assert.deepStrictEqual(decoded.getSignatureData(), request.getSignatureData())
+    assert.equal(decoded.encode(), request.encode())
+}
+
+describe('request object', function () {
+    it('should describe action requests', async function () {
+        const key = PrivateKey.from('PVT_K1_2wFL8Ne8JoGrxz6GdnfB7d4yhUYpqNgubHeKUC64qT3XE6Ro84')
+        const request = await SigningRequest.create(
+            {
+                action: {
+                    ...transfer,
+                    authorization: [PlaceholderAuth],
+                    data: {from: PlaceholderName, to: 'bar', quantity: '1.000 EOS', memo: 'hi'},
+                },
+                callback: {url: 'https://example.com/{{tx}}', background: true},
+                info: {foo: 'bar', num: UInt64.from(42), raw: 'é'},
+            },
+            {
+                abiProvider,
+                signatureProvider: {
+                    sign: (message) => ({signer: 'foo', signature: key.signDigest(message)}),
+                },
+            }
+        )
+        request.setRawInfoKey('bin', 'ff00')
+        const hex = request.toObject()
+        assert.equal(hex.version, 2)
+        assert.deepStrictEqual(hex.chain, {
+            alias: 1,
+            id: 'aca376f206b8fc25a6ed44dbdc66547c36c6c33e3a119ffbeaef943642f0e906',
+            name: 'EOS',
+        })
+        assert.equal(hex.type, 'action')
+        assert.deepStrictEqual(hex.flags, {value: 3, names: ['broadcast', 'background']})
+        assert.equal(hex.callback, 'https://example.com/{{tx}}')
+        assert.equal(typeof hex.actions[0].data, 'string')
+        assert.equal(hex.actions[0].hex_data, undefined)
+        assert.deepStrictEqual(hex.info, [
+            {key: 'foo', type: 'string', value: 'bar'},
+            {key: 'num', type: 'bytes', value: '2a00000000000000'},
+            {key: 'raw', type: 'string', value: 'é'},
+            {key: 'bin', type: 'bytes', value: 'ff00'},
+        ])
+        assert.equal(hex.signature!.signer, 'foo')
+        assertRoundTrip(request, hex)
+        const decoded = request.toObject(await request.fetchAbis())
+        assert.deepStrictEqual(decoded.actions[0], {
+            account: 'eosio.token',
+            name: 'transfer',
+            authorization: [{actor: '............1', permission: '............2'}],
+            data: {from: '............1', to: 'bar', quantity: '1.000 EOS', memo: 'hi'},
+            hex_data: hex.actions[0].data,
+        })
+        assertRoundTrip(request, decoded)
+        // decoded data without hex is encoded using the abis
+        decoded.actions[0] = {...decoded.actions[0], hex_data: undefined}
+        assert.throws(() => SigningRequest.fromObject(decoded), InvalidArgumentsError)
+        const encoded = SigningRequest.fromObject(decoded, {}, await request.fetchAbis())
+        assert.deepStrictEqual(encoded.getData(), request.getData())
+    })
+
+    it('should describe transaction and multi-chain requests', function () {
+        const request = new SigningRequestBuilder()
+            .multiChain([
+                ChainName.WAX,
+                'beefbeefbeefbeefbeefbeefbeefbeefbeefbeefbeefbeefbeefbeefbeefbeef',
+            ])
+            .contextFreeAction(transfer)
+            .action(transfer, transfer)
+            .expiration('2020-07-10T08:40:20')
+            .extension(1, 'beef')
+            .flag(1 << 7)
+            .createSync()
+        const object = request.toObject()
+        assert.equal(object.version, 3)
+        assert.deepStrictEqual(object.chain, {alias: 0})
+        assert.equal(object.type, 'transaction')
+        assert.deepStrictEqual(object.header, {
+            expiration: '2020-07-10T08:40:20',
+            ref_block_num: 0,
+            ref_block_prefix: 0,
+            max_net_usage_words: 0,
+            max_cpu_usage_ms: 0,
+            delay_sec: 0,
+            transaction_extensions: [{type: 1, data: 'beef'}],
+        })
+        assert.equal(object.context_free_actions!.length, 1)
+        assert.equal(object.actions.length, 2)
+        assert.deepStrictEqual(object.flags, {value: 0x81, names: ['broadcast']})
+        assert.deepStrictEqual(object.info, [
+            {
+                key: 'chain_ids',
+                type: 'chain_ids',
+                value: [
+                    {
+                        alias: 10,
+                        id: '1064487b3cd1a897ce03ae5b6a865651747e2e152090f99c1d19d44e01aea5a4',
+                        name: 'WAX',
+                    },
+                    {id: 'beefbeefbeefbeefbeefbeefbeefbeefbeefbeefbeefbeefbeefbeefbeefbeef'},
+                ],
+            },
+        ])
+        assert.equal(object.signature, null)
+        assertRoundTrip(request, object)
+    })
+
+    it('should describe identity requests', function () {
+        const v3 = SigningRequest.identity({
+            scope: 'myapp',
+            account: 'foo',
+            challenge: 'beef',
+            callback: 'https://example.com/login',
+        })
+        const object = v3.toObject()
+        assert.deepStrictEqual(object.identity, {
+            scope: 'myapp',
+            permission: {actor: 'foo', permission: '............2'},
+        })
+        assert.deepStrictEqual(object.actions, [])
+        assert.deepStrictEqual(object.info, [{key: 'challenge', type: 'bytes', value: 'beef'}])
+        assertRoundTrip(v3, object)
+        const v2 = SigningRequest.identity({callback: 'myapp://login'})
+        assert.deepStrictEqual(v2.toObject().identity, {permission: null})
+        assertRoundTrip(v2, v2.toObject())
+    })
+
+    it('should describe compatible versions', function () {
+        const data = SigningRequest.identity({
+            scope: 'myapp',
+            callback: 'myapp://login',
+        }).getEncodedData(false)
+        data[0] = 4
+        const options = {compatibleVersions: [4]}
+        const v4 = SigningRequest.fromData(data, options)
+        const object = v4.toObject()
+        assert.equal(object.version, 4)
+        assert.throws(() => SigningRequest.fromObject(object), UnsupportedVersionError)
+        const decoded = SigningRequest.fromObject(object, options)
+        assert.equal(decoded.version, 4)
+        assert.deepStrictEqual(Array.from(decoded.getEncodedData(false)), Array.from(data))
+        const invalid = {...object, info: [{key: 'foo', type: 'int', value: 1}]}
+        assert.throws(
+            () => SigningRequest.fromObject(invalid as any, options),
+            /Unknown info type in {"key":"foo","type":"int","value":1}/
+        )
+    })
+})
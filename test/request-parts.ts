@@ -0,0 +1,106 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {PrivateKey} from '@wharfkit/antelope'
+
+import abiProvider from './utils/mock-abi-provider'
+import zlib from './utils/node-zlib-provider'
+
+import {
+    encodeRequestParts,
+    ErrorCode,
+    InvalidRequestPartError,
+    RequestPartsAssembler,
+    SigningRequest,
+} from '../src'
+
+const options = {abiProvider, zlib}
+
+async function createRequest() {
+    const actions = ['foo', 'bar', 'baz', 'qux', 'quux', 'corge'].map((actor, i) => ({
+        account: 'eosio.token',
+        name: 'transfer',
+        authorization: [{actor, permission: 'active'}],
+        data: {
+            from: actor,
+            to: 'bar',
+            quantity: `${i}.000 EOS`,
+            memo: `payment ${i} from ${actor}`,
+        },
+    }))
+    const request = await SigningRequest.create(
+        {actions, callback: 'https://example.com/?tx={{tx}}'},
+        options
+    )
+    const key = PrivateKey.from('PVT_K1_2wFL8Ne8JoGrxz6GdnfB7d4yhUYpqNgubHeKUC64qT3XE6Ro84')
+    request.sign({
+        sign: (message) => ({signer: 'foo', signature: key.signDigest(message)}),
+    })
+    return request
+}
+
+function assertPartError(fn: () => void, message: RegExp) {
+    assert.throws(fn, (error: unknown) => {
+        assert.ok(error instanceof InvalidRequestPartError)
+        assert.equal(error.code, ErrorCode.INVALID_REQUEST_PART)
+        assert.match(error.message, message)
+        return true
+    })
+}
+
+describe('request parts', function () {
+    it('should split and reassemble in any order', async function () {
+        const request = await createRequest()
+        const parts = encodeRequestParts(request, {maxLength: 80})
+        assert.ok(parts.length > 2)
+        for (const part of parts) {
+            assert.ok(part.startsWith('esr-part:'))
+            assert.ok(part.length <= 80)
+        }
+        const assembler = new RequestPartsAssembler()
+        assert.deepStrictEqual(assembler.progress, {received: 0, total: 0, complete: false})
+        const order = parts.map((_, i) => i).reverse()
+        order.forEach((index, n) => {
+            const progress = assembler.add(parts[index])
+            assert.deepStrictEqual(progress, {
+                received: n + 1,
+                total: parts.length,
+                complete: n === parts.length - 1,
+            })
+            // duplicates are ignored
+            assert.equal(assembler.add(parts[index]).received, n + 1)
+        })
+        const decoded = assembler.getRequest(options)
+        assert.equal(decoded.encode(), request.encode())
+        assert.ok(decoded.signature)
+    })
+
+    it('should encode small requests as a single part', async function () {
+        const request = await createRequest()
+        const parts = encodeRequestParts(request, {maxLength: 4000, compress: false})
+        assert.equal(parts.length, 1)
+        const assembler = new RequestPartsAssembler()
+        assert.ok(assembler.add(parts[0]).complete)
+        assert.equal(assembler.getRequest(options).encode(), request.encode())
+    })
+
+    it('should reject invalid parts', async function () {
+        const request = await createRequest()
+        const parts = encodeRequestParts(request, {maxLength: 80})
+        const other = encodeRequestParts(
+            await SigningRequest.create({identity: {scope: 'foo'}}, options),
+            {maxLength: 40}
+        )
+        const assembler = new RequestPartsAssembler()
+        assertPartError(() => assembler.add('esr:foo'), /Not a request part/)
+        assertPartError(() => assembler.add('esr-part:AAAA'), /too short/)
+        const corrupt = parts[0].slice(0, -2) + (parts[0].endsWith('AA') ? 'BB' : 'AA')
+        assertPartError(() => assembler.add(corrupt), /checksum mismatch/)
+        assembler.add(parts[0])
+        assertPartError(() => assembler.add(other[0]), /different request/)
+        assertPartError(() => assembler.getData(), /Missing parts 2, 3/)
+        assert.deepStrictEqual(assembler.missing.slice(0, 2), [1, 2])
+        assembler.reset()
+        assert.equal(assembler.add(other[0]).total, other.length)
+        assert.throws(() => encodeRequestParts(request, {maxLength: 20}), RangeError)
+    })
+})
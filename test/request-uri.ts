@@ -0,0 +1,123 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import {
+    formatRequestUri,
+    InvalidRequestError,
+    parseRequestUri,
+    RequestTransport,
+    SigningRequest,
+} from '../src'
+
+const payload = 'gmNgZGRkAIFXBqEFopc6760yugsVYWCA0YIwxgKjuxLSL6-mgmQA'
+
+describe('request uri', function () {
+    it('should parse schemes and links', function () {
+        const cases: [string, RequestTransport, string?][] = [
+            [`esr://${payload}`, {type: 'scheme', scheme: 'esr:', slashes: true}],
+            [`esr:${payload}`, {type: 'scheme', scheme: 'esr:', slashes: false}],
+            [`web+esr:${payload}`, {type: 'scheme', scheme: 'web+esr:', slashes: false}],
+            [
+                `ESR://${payload}?utm_source=chat#top`,
+                {type: 'scheme', scheme: 'esr:', slashes: true},
+                `esr://${payload}`,
+            ],
+            [
+                `https://eosio.to/${payload}?utm_source=chat`,
+                {type: 'link', origin: 'https://eosio.to', path: '/', location: 'path'},
+                `https://eosio.to/${payload}`,
+            ],
+            [
+                `https://EOSIO.to/sign/${payload}`,
+                {type: 'link', origin: 'https://eosio.to', path: '/sign/', location: 'path'},
+                `https://eosio.to/sign/${payload}`,
+            ],
+            [
+                `https://eosio.to/?req=esr://${payload}&ref=foo`,
+                {
+                    type: 'link',
+                    origin: 'https://eosio.to',
+                    path: '/',
+                    location: 'query',
+                    param: 'req',
+                },
+                `https://eosio.to/?req=${payload}`,
+            ],
+            [
+                `https://eosio.to/#${payload}`,
+                {type: 'link', origin: 'https://eosio.to', path: '/', location: 'fragment'},
+            ],
+            [
+                `https://eosio.to/app#esr=${payload}`,
+                {
+                    type: 'link',
+                    origin: 'https://eosio.to',
+                    path: '/app',
+                    location: 'fragment',
+                    param: 'esr',
+                },
+            ],
+            [
+                `<esr%3A%2F%2F${payload}>`,
+                {type: 'scheme', scheme: 'esr:', slashes: true},
+                `esr://${payload}`,
+            ],
+            [
+                `https%3A%2F%2Feosio.to%2F${payload}`,
+                {type: 'link', origin: 'https://eosio.to', path: '/', location: 'path'},
+                `https://eosio.to/${payload}`,
+            ],
+        ]
+        for (const [uri, transport, formatted] of cases) {
+            const result = parseRequestUri(uri)
+            assert.equal(result.payload, payload, uri)
+            assert.deepStrictEqual(result.transport, transport, uri)
+            assert.equal(formatRequestUri(payload, transport), formatted || uri)
+        }
+    })
+
+    it('should reject unsupported uris', function () {
+        const invalid = [
+            payload,
+            `https://example.com/${payload}`,
+            'https://eosio.to/about',
+            'esr://not valid!',
+            'esr://%E0%A4%A',
+        ]
+        for (const uri of invalid) {
+            assert.throws(() => parseRequestUri(uri), InvalidRequestError, uri)
+        }
+        assert.throws(
+            () => parseRequestUri(`myapp:${payload}`, {schemes: ['esr:', 'web+esr:']}),
+            /Unsupported request uri scheme myapp:/
+        )
+        const schemes = {schemes: ['esr:']}
+        assert.throws(
+            () => parseRequestUri(`https://eosio.to/?uri=myapp://${payload}`, schemes),
+            /Unsupported request uri scheme myapp:/
+        )
+        assert.throws(
+            () => parseRequestUri(`https://eosio.to/#req=https://${payload}`),
+            /Unsupported request uri scheme https:/
+        )
+        assert.equal(
+            parseRequestUri(`https://eosio.to/?uri=esr://${payload}`, schemes).payload,
+            payload
+        )
+        assert.doesNotThrow(() =>
+            parseRequestUri(`https://example.com/${payload}`, {linkHosts: ['example.com']})
+        )
+    })
+
+    it('should encode in the transport it was decoded from', function () {
+        const link = `https://eosio.to/${payload}`
+        const request = SigningRequest.from(link)
+        assert.equal(request.encode(), link)
+        assert.equal(request.clone().encode(), link)
+        assert.equal(request.encode(undefined, undefined, 'esr:'), `esr://${payload}`)
+        const web = SigningRequest.from(`web+esr:${payload}`)
+        assert.equal(web.encode(), `web+esr:${payload}`)
+        assert.equal(web.encode(undefined, true), `web+esr://${payload}`)
+        assert.equal(SigningRequest.from(`esr:${payload}`).encode(), `esr:${payload}`)
+    })
+})
@@ -6,13 +6,24 @@ import mockAbiProvider from './utils/mock-abi-provider'
 import zlib from './utils/node-zlib-provider'
 
 import {
+    ChainId,
     ChainName,
+    PlaceholderResolver,
     ResolvedSigningRequest,
     SignatureProvider,
     SigningRequestEncodingOptions,
+    UndecodedAction,
 } from '../src'
 import * as TSModule from '../src'
-import {Name, PrivateKey, Serializer, Signature, UInt64} from '@wharfkit/antelope'
+import {
+    Asset,
+    Name,
+    PermissionLevel,
+    PrivateKey,
+    Serializer,
+    Signature,
+    UInt64,
+} from '@wharfkit/antelope'
 import {IdentityProof} from '../src/identity-proof'
 
 let {SigningRequest, PlaceholderAuth, PlaceholderName} = TSModule
@@ -315,6 +326,343 @@ describe('signing request', function () {
         })
     })
 
+    it('should resolve with several signers', async function () {
+        const transfer = (from: string, auth: any) => ({
+            account: 'eosio.token',
+            name: 'transfer',
+            authorization: [auth],
+            data: {from, to: 'bar', quantity: '1.000 EOS', memo: 'hello there'},
+        })
+        const request = await SigningRequest.create(
+            {
+                actions: [
+                    transfer('............1', PlaceholderAuth),
+                    transfer('............3', {
+                        actor: '............3',
+                        permission: '............2',
+                    }),
+                    transfer('service', {actor: 'service', permission: 'cosign'}),
+                ],
+                callback: 'https://example.com/?sig={{sig}}&sa={{sa}}',
+            },
+            options
+        )
+        const abis = await request.fetchAbis()
+        const resolved = request.resolve(
+            abis,
+            {
+                signer: PermissionLevel.from('foo@active'),
+                placeholders: {'............3': PermissionLevel.from('bob@owner')},
+            },
+            {timestamp, block_num: 1234, expire_seconds: 0, ref_block_prefix: 56789}
+        )
+        assert.deepStrictEqual(
+            resolved.resolvedTransaction.actions.map((action) => [
+                String(action.authorization[0]),
+                String(action.data.from),
+            ]),
+            [
+                ['foo@active', 'foo'],
+                ['bob@owner', 'bob'],
+                ['service@cosign', 'service'],
+            ]
+        )
+        assert.equal(String(resolved.signer), 'foo@active')
+        assert.deepStrictEqual(resolved.requiredSigners.map(String), [
+            'foo@active',
+            'bob@owner',
+            'service@cosign',
+        ])
+        const key = PrivateKey.from('PVT_K1_2wFL8Ne8JoGrxz6GdnfB7d4yhUYpqNgubHeKUC64qT3XE6Ro84')
+        const sig = (n: number) => key.signDigest(UInt64.from(n).toString().padStart(64, '0'))
+        const signatures = [
+            {signer: PermissionLevel.from('service@cosign'), signatures: [sig(3)]},
+            {signer: PermissionLevel.from('bob@owner'), signatures: [sig(2)]},
+            {signer: PermissionLevel.from('foo@active'), signatures: [sig(1)]},
+        ]
+        const callback = resolved.getCallback(signatures)!
+        assert.equal(callback.payload.sig, String(sig(1)))
+        assert.equal(callback.payload.sig0, String(sig(3)))
+        assert.equal(callback.payload.sig1, String(sig(2)))
+        assert.equal(callback.url, `https://example.com/?sig=${sig(1)}&sa=foo`)
+        assert.throws(() => resolved.getCallback(signatures.slice(1)), /service@cosign/)
+        assert.throws(
+            () =>
+                resolved.getCallback([
+                    ...signatures,
+                    {signer: PermissionLevel.from('eve@active'), signatures: [sig(4)]},
+                ]),
+            /eve@active is not a signer/
+        )
+        assert.throws(
+            () =>
+                request.resolveActions(abis, {
+                    signer: PermissionLevel.from('foo@active'),
+                    placeholders: {'............1': PermissionLevel.from('bob@active')},
+                }),
+            /reserved/
+        )
+        assert.throws(
+            () =>
+                request.resolveActions(abis, {
+                    signer: PermissionLevel.from('foo@active'),
+                    placeholders: {service: PermissionLevel.from('bob@active')},
+                }),
+            /service is not a placeholder name/
+        )
+    })
+
+    it('should resolve custom placeholders', async function () {
+        const placeholderResolvers: PlaceholderResolver[] = [
+            {
+                name: 'core token contract',
+                placeholder: '............3',
+                resolve: (_, {chainId}) =>
+                    chainId && chainId.equals(ChainId.from(ChainName.EOS))
+                        ? 'eosio.token'
+                        : undefined,
+            },
+            {name: 'referral', placeholder: '............4', resolve: () => Name.from('referrer')},
+            {
+                name: 'core symbol',
+                type: 'asset',
+                resolve: (value: Asset) =>
+                    value.symbol.code.equals('CORE')
+                        ? Asset.fromUnits(value.units, '3,EOS')
+                        : undefined,
+            },
+        ]
+        const request = await SigningRequest.create(
+            {
+                action: {
+                    account: 'eosio.token',
+                    name: 'transfer',
+                    authorization: [
+                        PlaceholderAuth,
+                        {actor: '............4', permission: 'active'},
+                    ],
+                    data: {
+                        from: '............1',
+                        to: '............3',
+                        quantity: '1.000 CORE',
+                        memo: 'hello there',
+                    },
+                },
+            },
+            {...options, placeholderResolvers}
+        )
+        const abis = await request.fetchAbis()
+        const resolved = request.resolve(
+            abis,
+            {actor: 'foo', permission: 'active'},
+            {
+                timestamp,
+                block_num: 1234,
+                expire_seconds: 0,
+                ref_block_prefix: 56789,
+            }
+        )
+        const action = resolved.resolvedTransaction.actions[0]
+        assert.deepStrictEqual(recode(action.authorization), [
+            {actor: 'foo', permission: 'active'},
+            {actor: 'referrer', permission: 'active'},
+        ])
+        assert.deepStrictEqual(recode(action.data), {
+            from: 'foo',
+            to: 'eosio.token',
+            quantity: '1.000 EOS',
+            memo: 'hello there',
+        })
+        assert.deepStrictEqual(recode(action.placeholders), [
+            {
+                resolver: 'core token contract',
+                path: 'data.to',
+                value: '............3',
+                resolved: 'eosio.token',
+            },
+            {
+                resolver: 'core symbol',
+                path: 'data.quantity',
+                value: '1.000 CORE',
+                resolved: '1.000 EOS',
+            },
+            {
+                resolver: 'referral',
+                path: 'authorization.1.actor',
+                value: '............4',
+                resolved: 'referrer',
+            },
+        ])
+        assert.deepStrictEqual(
+            recode(resolved.transaction.actions[0].decodeData(abis.get('eosio.token')!)),
+            recode(action.data)
+        )
+        // placeholders are left as is for chains the resolver does not know
+        const jungle = request.resolveActions(abis, PermissionLevel.from('foo@active'), {
+            chainId: ChainName.JUNGLE,
+        })
+        assert.equal(String(jungle[0].data.to), '............3')
+        // resolvers are kept when decoding
+        const decoded = SigningRequest.from(request.encode(), {placeholderResolvers})
+        assert.equal(
+            String(decoded.resolveActions(abis, PermissionLevel.from('foo@active'))[0].data.to),
+            'eosio.token'
+        )
+        request.placeholderResolvers = [
+            {name: 'signer', placeholder: PlaceholderName, resolve: () => 'bar'},
+        ]
+        assert.throws(
+            () => request.resolveActions(abis, PermissionLevel.from('foo@active')),
+            /reserved/
+        )
+    })
+
+    it('should resolve leniently when abis are missing', async function () {
+        const transfer = {
+            account: 'eosio.token',
+            name: 'transfer',
+            authorization: [PlaceholderAuth],
+            data: {from: PlaceholderName, to: 'bar', quantity: '1.000 EOS', memo: 'hello there'},
+        }
+        const request = await SigningRequest.create(
+            {
+                actions: [
+                    transfer,
+                    {
+                        account: 'opaque',
+                        name: 'doit',
+                        authorization: [PlaceholderAuth],
+                        data: '0000000000000100beef',
+                    },
+                    {
+                        account: 'eosio.token',
+                        name: 'nope',
+                        authorization: [{actor: 'foo', permission: 'active'}],
+                        data: '',
+                    },
+                ],
+            },
+            options
+        )
+        const signer = PermissionLevel.from('foo@active')
+        const ctx = {timestamp, block_num: 1234, expire_seconds: 0, ref_block_prefix: 56789}
+        await assert.rejects(request.fetchAbis(), /Missing ABI definition for opaque/)
+        const abis = await request.fetchAbis(undefined, {lenient: true})
+        assert.deepStrictEqual([...abis.keys()], ['eosio.token'])
+        assert.throws(
+            () => request.resolveActions(abis, signer),
+            /Missing ABI definition for opaque/
+        )
+        const actions = request.resolveActions(abis, signer, {lenient: true})
+        assert.equal(recode(actions[0].data).from, 'foo')
+        assert.deepStrictEqual(recode(actions[1]), {
+            account: 'opaque',
+            name: 'doit',
+            authorization: [{actor: 'foo', permission: 'active'}],
+            data: '0000000000000100beef',
+            reason: 'Missing ABI definition for opaque',
+        })
+        assert.equal(
+            (actions[2] as UndecodedAction).reason,
+            'Missing type for action eosio.token:nope in ABI'
+        )
+        const resolved = request.resolve(abis, signer, ctx, {lenient: true})
+        const raw = resolved.transaction.actions.map((action) => String(action.data))
+        assert.deepStrictEqual(raw.slice(1), ['0000000000000100beef', ''])
+        assert.equal(String(resolved.transaction.actions[1].authorization[0]), 'foo@active')
+        const resolvedWith = await request.resolveWith({abiProvider}, signer, ctx, {lenient: true})
+        assert.equal(String(resolvedWith.transaction.id), String(resolved.transaction.id))
+        await assert.rejects(
+            request.resolveWith({abiProvider}, signer, ctx),
+            /Missing ABI definition for opaque/
+        )
+        // any provider failure counts as a missing abi
+        const failing = {
+            getAbi: async () => {
+                throw new Error('Network error')
+            },
+        }
+        await assert.rejects(request.fetchAbis(failing), /Network error/)
+        assert.equal((await request.fetchAbis(failing, {lenient: true})).size, 0)
+        const missing = {getAbi: async () => undefined as any}
+        await assert.rejects(request.fetchAbis(missing), /Missing ABI definition for eosio.token/)
+        assert.equal((await request.fetchAbis(missing, {lenient: true})).size, 0)
+        const undecoded = request.resolveActions(new Map(), signer, {lenient: true})
+        assert.deepStrictEqual(
+            undecoded.map((action) => (action as UndecodedAction).reason),
+            [
+                'Missing ABI definition for eosio.token',
+                'Missing ABI definition for opaque',
+                'Missing ABI definition for eosio.token',
+            ]
+        )
+    })
+
+    it('should resolve context free actions', async function () {
+        const request = await SigningRequest.create(
+            {
+                transaction: {
+                    context_free_actions: [
+                        {
+                            account: 'eosio.token',
+                            name: 'transfer',
+                            authorization: [],
+                            data: {
+                                from: PlaceholderName,
+                                to: 'bar',
+                                quantity: '1.000 EOS',
+                                memo: 'cfa',
+                            },
+                        },
+                    ],
+                    actions: [
+                        {
+                            account: 'eosio.token',
+                            name: 'transfer',
+                            authorization: [PlaceholderAuth],
+                            data: {
+                                from: PlaceholderName,
+                                to: 'bar',
+                                quantity: '1.000 EOS',
+                                memo: 'hello there',
+                            },
+                        },
+                    ],
+                },
+            },
+            options
+        )
+        assert.deepStrictEqual(request.getRequiredAbis().map(String), ['eosio.token'])
+        assert.strictEqual(request.getRawContextFreeActions().length, 1)
+        const abis = await request.fetchAbis()
+        const resolved = request.resolve(
+            abis,
+            {actor: 'foo', permission: 'active'},
+            {
+                timestamp,
+                block_num: 1234,
+                expire_seconds: 0,
+                ref_block_prefix: 56789,
+            }
+        )
+        assert.deepStrictEqual(recode(resolved.resolvedTransaction.context_free_actions), [
+            {
+                account: 'eosio.token',
+                name: 'transfer',
+                authorization: [],
+                data: {from: 'foo', to: 'bar', quantity: '1.000 EOS', memo: 'cfa'},
+            },
+        ])
+        assert.deepStrictEqual(recode(resolved.transaction.context_free_actions), [
+            {
+                account: 'eosio.token',
+                name: 'transfer',
+                authorization: [],
+                data: '000000000000285d000000000000ae39e80300000000000003454f530000000003636661',
+            },
+        ])
+    })
+
     it('should encode and decode requests', async function () {
         const req1 = await SigningRequest.create(
             {
@@ -427,6 +775,47 @@ describe('signing request', function () {
         assert.deepStrictEqual(recode(req2.signature), mockSig)
     })
 
+    it('should verify request signatures', async function () {
+        const key = PrivateKey.from('PVT_K1_2wFL8Ne8JoGrxz6GdnfB7d4yhUYpqNgubHeKUC64qT3XE6Ro84')
+        const otherKey = PrivateKey.from('5KQwrPbwdL6PhXujxW37FSSQZ1JiwsST4cqQzDeyXtP79zkvFD3')
+        const signatureProvider: SignatureProvider = {
+            sign(message) {
+                return {signer: 'foo', signature: key.signDigest(message)}
+            },
+        }
+        const unsigned = await SigningRequest.create(
+            {
+                action: {
+                    account: 'eosio.token',
+                    name: 'transfer',
+                    authorization: [{actor: 'foo', permission: 'active'}],
+                    data: {from: 'foo', to: 'bar', quantity: '1.000 EOS', memo: 'hello there'},
+                },
+            },
+            options
+        )
+        assert.strictEqual(unsigned.recoverSignatureKey(), null)
+        assert.strictEqual(unsigned.getSignatureStatus(key.toPublic()), 'unsigned')
+        assert.strictEqual(unsigned.verifySignature(key.toPublic()), false)
+        const signed = SigningRequest.from(unsigned.encode(), options)
+        signed.sign(signatureProvider)
+        const decoded = SigningRequest.from(signed.encode(), options)
+        assert.ok(decoded.recoverSignatureKey()!.equals(key.toPublic()))
+        assert.strictEqual(decoded.getSignatureStatus(key.toPublic()), 'valid')
+        assert.strictEqual(decoded.getSignatureStatus(String(key.toPublic())), 'valid')
+        assert.strictEqual(decoded.getSignatureStatus(otherKey.toPublic()), 'invalid')
+        assert.strictEqual(
+            decoded.verifySignature({threshold: 1, keys: [{weight: 1, key: key.toPublic()}]}),
+            true
+        )
+        assert.strictEqual(
+            decoded.verifySignature({threshold: 1, keys: [{weight: 1, key: otherKey.toPublic()}]}),
+            false
+        )
+        decoded.setCallback('https://example.com', true)
+        assert.strictEqual(decoded.getSignatureStatus(key.toPublic()), 'invalid')
+    })
+
     it('should encode and decode test requests', async function () {
         const req1uri =
             'esr://gmNgZGBY1mTC_MoglIGBIVzX5uxZRqAQGMBoExgDAjRi4fwAVz93ICUckpGYl12skJZfpFCSkaqQllmcwczAAAA'
@@ -661,7 +1050,7 @@ describe('signing request', function () {
                 rbn: '0',
                 rid: '0',
                 ex: '2020-07-10T08:40:20',
-                req: 'esr://AwAAAwAAAAAAAChdAAAVbXlhcHA6Ly9sb2dpbj17e2NpZH19AQljaGFpbl9pZHMFAgABAAo',
+                req: 'esr://g2NgYGYAA41YBgbR3MrEggIrff2c_PTMPNvq6uTMlNpaRs7kjMTMvPjMlGJWJgZGBi4A',
                 sa: 'foo',
                 sp: 'active',
                 cid: '1064487b3cd1a897ce03ae5b6a865651747e2e152090f99c1d19d44e01aea5a4',
@@ -0,0 +1,158 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+
+import mockAbiProvider, {MockAbiProvider} from './utils/mock-abi-provider'
+import zlib from './utils/node-zlib-provider'
+
+import {compareRiskSeverity, PlaceholderAuth, RiskCode, RiskRule, SigningRequest} from '../src'
+
+// subset of the system contract abi
+const eosioAbi = {
+    version: 'eosio::abi/1.1',
+    structs: [
+        {
+            name: 'permission_level',
+            base: '',
+            fields: [
+                {name: 'actor', type: 'name'},
+                {name: 'permission', type: 'name'},
+            ],
+        },
+        {
+            name: 'linkauth',
+            base: '',
+            fields: [
+                {name: 'account', type: 'name'},
+                {name: 'code', type: 'name'},
+                {name: 'type', type: 'name'},
+                {name: 'requirement', type: 'name'},
+            ],
+        },
+        {
+            name: 'deleteauth',
+            base: '',
+            fields: [
+                {name: 'account', type: 'name'},
+                {name: 'permission', type: 'name'},
+            ],
+        },
+    ],
+    actions: [
+        {name: 'linkauth', type: 'linkauth', ricardian_contract: ''},
+        {name: 'deleteauth', type: 'deleteauth', ricardian_contract: ''},
+    ],
+}
+
+const abiProvider = new MockAbiProvider(new Map([...mockAbiProvider.abis, ['eosio', eosioAbi]]))
+const options = {abiProvider, zlib}
+
+describe('risk analysis', function () {
+    it('should not warn for plain transfers', async function () {
+        const request = await SigningRequest.create(
+            {
+                action: {
+                    account: 'eosio.token',
+                    name: 'transfer',
+                    authorization: [PlaceholderAuth],
+                    data: {from: 'foo', to: 'bar', quantity: '1.000 EOS', memo: ''},
+                },
+                callback: 'https://example.com',
+            },
+            options
+        )
+        assert.deepStrictEqual(request.analyze(await request.fetchAbis()), [])
+    })
+
+    it('should warn for dangerous contents', async function () {
+        const request = await SigningRequest.create(
+            {
+                transaction: {
+                    delay_sec: 60,
+                    transaction_extensions: [{type: 1, data: 'beef'}],
+                    actions: [
+                        {
+                            account: 'eosio',
+                            name: 'linkauth',
+                            authorization: [PlaceholderAuth],
+                            data: {
+                                account: 'foo',
+                                code: 'eosio.token',
+                                type: 'transfer',
+                                requirement: 'hot',
+                            },
+                        },
+                        {
+                            account: 'eosio',
+                            name: 'deleteauth',
+                            authorization: [PlaceholderAuth],
+                            data: {account: 'foo', permission: 'cold'},
+                        },
+                    ],
+                },
+                callback: 'http://example.com',
+            },
+            options
+        )
+        const abis = await request.fetchAbis()
+        assert.deepStrictEqual(request.analyze(abis), [
+            {
+                code: RiskCode.PERMISSION_LINK,
+                severity: 'warning',
+                message: 'Allows foo@hot to authorize eosio.token::transfer',
+                actionIndex: 0,
+                contextFree: false,
+            },
+            {
+                code: RiskCode.PERMISSION_CHANGE,
+                severity: 'danger',
+                message: 'Deletes the permission foo@cold',
+                actionIndex: 1,
+                contextFree: false,
+            },
+            {
+                code: RiskCode.DELAYED_TRANSACTION,
+                severity: 'warning',
+                message: 'Transaction is delayed by 60 seconds',
+            },
+            {
+                code: RiskCode.TRANSACTION_EXTENSIONS,
+                severity: 'warning',
+                message: 'Transaction has extensions of type 1',
+            },
+            {
+                code: RiskCode.INSECURE_CALLBACK,
+                severity: 'danger',
+                message: 'Callback is sent unencrypted over http',
+            },
+        ])
+        // without abis actions are checked by name only
+        assert.deepStrictEqual(
+            request
+                .analyze()
+                .filter(({actionIndex}) => actionIndex === 1)
+                .map(({code, message}) => ({code, message})),
+            [
+                {code: RiskCode.PERMISSION_CHANGE, message: 'Deletes an account permission'},
+                {code: RiskCode.UNDECODED_ACTION, message: 'Unable to decode eosio::deleteauth'},
+            ]
+        )
+    })
+
+    it('should run custom rules', async function () {
+        const request = SigningRequest.identity({scope: 'example', callback: 'myapp://login'})
+        const rule: RiskRule = ({request}) =>
+            request.isIdentity()
+                ? [{code: 'LOGIN', severity: 'info', message: 'Logs in to example'}]
+                : []
+        const warnings = request.analyze(new Map(), {rules: [rule]})
+        assert.deepStrictEqual(
+            warnings.map(({code, severity}) => ({code, severity})),
+            [
+                {code: RiskCode.INSECURE_CALLBACK, severity: 'warning'},
+                {code: 'LOGIN', severity: 'info'},
+            ]
+        )
+        assert.ok(compareRiskSeverity('danger', 'warning') > 0)
+        assert.equal(compareRiskSeverity('info', 'info'), 0)
+    })
+})
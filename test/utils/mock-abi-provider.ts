@@ -1,6 +1,6 @@
 import {readdirSync as readdir, readFileSync as readfile} from 'fs'
 import {join as joinPath} from 'path'
-import {AbiProvider} from '../../src'
+import {AbiProvider, MissingAbiError} from '../../src'
 import {Name} from '@wharfkit/antelope'
 
 // To add an ABI for testing run (in project root):
@@ -12,7 +12,7 @@ export class MockAbiProvider implements AbiProvider {
     public async getAbi(account: Name) {
         const abi = this.abis.get(account.toString())
         if (!abi) {
-            throw new Error(`No ABI for: ${account}`)
+            throw new MissingAbiError(account)
         }
         return abi
     }
@@ -0,0 +1,94 @@
+import {ABI, APIProvider, APIResponse, Checksum256, Serializer} from '@wharfkit/antelope'
+
+import mockAbiProvider from './mock-abi-provider'
+
+/** Mock chain api serving chain/get_info, the test ABIs and accounts. */
+export class MockAPIProvider implements APIProvider {
+    /** Paths of all calls made. */
+    calls: string[] = []
+    /** Account permissions served by chain/get_account, keyed by account name. */
+    accounts: Record<string, {perm_name: string; parent: string; required_auth: unknown}[]> = {}
+
+    constructor(public readonly info: Record<string, unknown>) {}
+
+    async call(args: {path: string; params?: any}): Promise<APIResponse> {
+        this.calls.push(args.path)
+        switch (args.path) {
+            case '/v1/chain/get_info':
+                return respond(200, this.info)
+            case '/v1/chain/get_abi': {
+                const account = String(args.params.account_name)
+                return respond(200, {account_name: account, abi: mockAbiProvider.abis.get(account)})
+            }
+            case '/v1/chain/get_raw_abi': {
+                const account = String(args.params.account_name)
+                const abi = mockAbiProvider.abis.get(account)
+                const data = abi ? Serializer.encode({object: ABI.from(abi)}) : undefined
+                return respond(200, {
+                    account_name: account,
+                    code_hash: '00'.repeat(32),
+                    abi_hash: data ? String(Checksum256.hash(data)) : '00'.repeat(32),
+                    abi: data ? Buffer.from(data.array).toString('base64') : '',
+                })
+            }
+            case '/v1/chain/get_account': {
+                const account = String(args.params.account_name)
+                if (!this.accounts[account]) {
+                    return respond(500, {
+                        code: 500,
+                        message: 'Internal Service Error',
+                        error: {
+                            code: 0,
+                            name: 'exception',
+                            what: 'unspecified',
+                            details: [
+                                {message: `unknown key: ${account}`, file: 'http_plugin.cpp'},
+                            ],
+                        },
+                    })
+                }
+                return respond(200, mockAccount(account, this.accounts[account]))
+            }
+            default:
+                return respond(404, {code: 404, message: 'Not Found', error: {what: 'Not Found'}})
+        }
+    }
+}
+
+function mockAccount(account: string, permissions: unknown[]) {
+    const limit = {used: 0, available: 0, max: 0}
+    return {
+        account_name: account,
+        head_block_num: 100,
+        head_block_time: '2018-02-15T00:00:00.000',
+        privileged: false,
+        last_code_update: '1970-01-01T00:00:00.000',
+        created: '2018-02-15T00:00:00.000',
+        ram_quota: 0,
+        net_weight: 0,
+        cpu_weight: 0,
+        net_limit: limit,
+        cpu_limit: limit,
+        ram_usage: 0,
+        permissions,
+    }
+}
+
+function respond(status: number, json: unknown): APIResponse {
+    return {status, json, text: JSON.stringify(json), headers: {}}
+}
+
+export const mockInfo = {
+    server_version: 'd1bc8d3',
+    chain_id: 'aca376f206b8fc25a6ed44dbdc66547c36c6c33e3a119ffbeaef943642f0e906',
+    head_block_num: 100,
+    last_irreversible_block_num: 70000,
+    last_irreversible_block_id: '000111707ea89d6d1de3a5be14e7a7c4ba07ec9c7a4eb5c0ffee0c8f9e5f4a21',
+    head_block_id: '00000064eb8a95a7b5e0dfbafd9c0ccd3b3a2e5c4b1a2f0d1e8c7b6a59483726',
+    head_block_time: '2018-02-15T00:00:00.000',
+    head_block_producer: 'eosio',
+    virtual_block_cpu_limit: 200000000,
+    virtual_block_net_limit: 1048576000,
+    block_cpu_limit: 200000,
+    block_net_limit: 1048576,
+}
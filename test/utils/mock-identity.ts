@@ -0,0 +1,53 @@
+import {APIClient, PermissionLevel, PrivateKey} from '@wharfkit/antelope'
+
+import {MockAPIProvider, mockInfo} from './mock-api-provider'
+
+import {APIAccountProvider, ChainId, ChainIdType, ChainName, IdentityProof} from '../../src'
+
+/** Key of the foo@active permission. */
+export const key = PrivateKey.from('PVT_K1_2wFL8Ne8JoGrxz6GdnfB7d4yhUYpqNgubHeKUC64qT3XE6Ro84')
+/** Key of the foo@owner permission. */
+export const otherKey = PrivateKey.from('5KQwrPbwdL6PhXujxW37FSSQZ1JiwsST4cqQzDeyXtP79zkvFD3')
+
+/** Clock before the expiration of proofs created by `createProof`. */
+export const now = () => new Date('2020-07-10T08:00:00Z').getTime()
+
+const placeholderSignature =
+    'SIG_K1_K4nkCupUx3hDXSHq4rhGPpDMPPPjJyvmF3M6j7ppYUzkR3L93endwnxf3YhJSG4SSvxxU1ytD8hj39kukTeYxjwy5H3XNJ'
+
+/** Create a signed identity proof. */
+export function createProof(
+    signer = 'foo@active',
+    signingKey = key,
+    scope = 'myapp',
+    chainId: ChainIdType = ChainName.EOS
+) {
+    const data = {
+        chainId: ChainId.from(chainId),
+        scope,
+        expiration: '2020-07-10T08:40:20',
+        signer: PermissionLevel.from(signer),
+    }
+    const proof = IdentityProof.from({...data, signature: placeholderSignature})
+    const signature = signingKey.signDigest(proof.transaction.signingDigest(proof.chainId))
+    return IdentityProof.from({...data, signature})
+}
+
+function keyAuthority(privateKey: PrivateKey) {
+    return {
+        threshold: 1,
+        keys: [{weight: 1, key: String(privateKey.toPublic())}],
+        accounts: [],
+        waits: [],
+    }
+}
+
+/** Account provider backed by a mock chain api with the foo account. */
+export function createAccountProvider(chainId: ChainIdType = ChainName.EOS) {
+    const provider = new MockAPIProvider(mockInfo)
+    provider.accounts.foo = [
+        {perm_name: 'active', parent: 'owner', required_auth: keyAuthority(key)},
+        {perm_name: 'owner', parent: '', required_auth: keyAuthority(otherKey)},
+    ]
+    return {provider, accountProvider: new APIAccountProvider(new APIClient({provider}), {chainId})}
+}
@@ -0,0 +1,25 @@
+import {request} from 'http'
+import {CallbackFetch} from '../../src'
+
+/** Minimal fetch stand-in on top of the node http module. */
+const fetch: CallbackFetch = (url, init) => {
+    return new Promise((resolve, reject) => {
+        const req = request(url, {method: init.method, headers: init.headers}, (res) => {
+            res.resume()
+            res.on('end', () => {
+                const status = res.statusCode || 0
+                resolve({ok: status >= 200 && status < 300, status})
+            })
+        })
+        req.on('error', reject)
+        if (init.signal) {
+            init.signal.addEventListener('abort', () => req.destroy(new Error('Aborted')))
+        }
+        if (init.body) {
+            req.write(init.body)
+        }
+        req.end()
+    })
+}
+
+export default fetch
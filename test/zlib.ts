@@ -0,0 +1,76 @@
+import {strict as assert} from 'assert'
+import 'mocha'
+import {deflateRawSync, inflateRawSync} from 'zlib'
+
+import nodeZlib from './utils/node-zlib-provider'
+
+import {ErrorCode, InvalidRequestError, SigningRequest} from '../src'
+import {deflateRaw, inflateRaw} from '../src/zlib'
+
+function testData(seed: number, length: number) {
+    const rand = () => {
+        seed = (seed * 1103515245 + 12345) & 0x7fffffff
+        return seed / 0x7fffffff
+    }
+    const alphabet = 1 + Math.floor(rand() * 255)
+    const data = new Uint8Array(length)
+    for (let i = 0; i < length; i++) {
+        if (i > 10 && rand() < 0.3) {
+            // copy a run from earlier in the data to create matches
+            const distance = 1 + Math.floor(rand() * Math.min(i, 40000))
+            const run = Math.min(Math.floor(rand() * 300), length - i)
+            for (let j = 0; j < run; j++) {
+                data[i + j] = data[i + j - distance]
+            }
+            i += Math.max(run - 1, 0)
+        } else {
+            data[i] = Math.floor(rand() * alphabet)
+        }
+    }
+    return data
+}
+
+describe('zlib', function () {
+    it('should be compatible with zlib', function () {
+        this.slow(1000)
+        const lengths = [0, 1, 2, 3, 100, 1000, 5000, 70000]
+        lengths.forEach((length, seed) => {
+            const data = testData(seed + 1, length)
+            const deflated = deflateRaw(data)
+            assert.deepStrictEqual(new Uint8Array(inflateRawSync(Buffer.from(deflated))), data)
+            for (const level of [1, 6, 9]) {
+                const nodeDeflated = deflateRawSync(Buffer.from(data), {level})
+                assert.deepStrictEqual(inflateRaw(new Uint8Array(nodeDeflated)), data)
+            }
+        })
+        const stored = deflateRawSync(Buffer.from(testData(42, 1000)), {level: 0})
+        assert.deepStrictEqual(inflateRaw(new Uint8Array(stored)), testData(42, 1000))
+        const random = new Uint8Array(1000).map((_, i) => (i * 7919) % 251)
+        assert.ok(deflateRaw(random).length < 1010)
+    })
+
+    it('should reject invalid data', function () {
+        const deflated = deflateRaw(testData(1, 1000))
+        for (const data of [new Uint8Array([0xff]), deflated.subarray(0, 10)]) {
+            assert.throws(
+                () => inflateRaw(data),
+                (error: unknown) =>
+                    error instanceof InvalidRequestError && error.code === ErrorCode.INVALID_REQUEST
+            )
+        }
+    })
+
+    it('should compress requests by default', async function () {
+        const request = SigningRequest.identity({scope: 'foo', callback: 'https://example.com'})
+        const uri = request.encode()
+        assert.equal(uri, request.encode(true))
+        assert.ok(uri.length < request.encode(false).length)
+        // interoperable with other zlib implementations
+        assert.equal(
+            SigningRequest.from(uri, {zlib: nodeZlib}).encode(false),
+            request.encode(false)
+        )
+        const nodeUri = SigningRequest.from(uri, {zlib: nodeZlib}).encode()
+        assert.equal(SigningRequest.from(nodeUri).encode(false), request.encode(false))
+    })
+})